@@ -8,7 +8,7 @@
 'use strict';
 
 import {
-  ISignal
+  ISignal, defineSignal, emitter
 } from 'phosphor-signaling';
 
 
@@ -34,19 +34,105 @@ interface IPropertyChangedArgs {
 }
 
 
+/**
+ * The arguments object emitted with a [[Property.valueChanged]] signal.
+ */
+export
+interface IPropertyValueChangedArgs extends IPropertyChangedArgs {
+  /**
+   * The property owner for which the value changed.
+   */
+  owner: IPropertyOwner;
+}
+
+
+/**
+ * The arguments object emitted with a [[Property.itemsChanged]] signal.
+ */
+export
+interface IPropertyItemsChangedArgs {
+  /**
+   * The property whose value was mutated.
+   */
+  property: Property<any, any>;
+
+  /**
+   * The property owner which holds the mutated value.
+   */
+  owner: IPropertyOwner;
+
+  /**
+   * The change args emitted by the observable collection.
+   */
+  args: IListChangedArgs<any> | IMapChangedArgs<any, any>;
+}
+
+
 /**
  * An object which can be used with property descriptors.
  *
- * Any object can be used with property descriptors, provided that the
- * object has a [[propertyChanged]] signal. The signal will be emitted
- * automatically by the property descriptor when the value is changed.
+ * Any object can be used with property descriptors. If the object has
+ * a [[propertyChanged]] signal, the signal will be emitted automatically
+ * by the property descriptor when the value is changed.
  */
 export
 interface IPropertyOwner {
   /**
    * A signal emitted when the value of a property changes.
+   *
+   * #### Notes
+   * If an owner does not provide this signal, the library manages a
+   * change signal on its behalf. Use [[getPropertyChangedSignal]] to
+   * access the change signal of any owner.
    */
-  propertyChanged: ISignal<IPropertyChangedArgs>;
+  propertyChanged?: ISignal<IPropertyChangedArgs>;
+}
+
+
+/**
+ * An object which holds resources that can be released.
+ */
+export
+interface IDisposable {
+  /**
+   * Whether the object has been disposed.
+   */
+  isDisposed: boolean;
+
+  /**
+   * Dispose of the resources held by the object.
+   *
+   * #### Notes
+   * Calling this method more than once is a no-op.
+   */
+  dispose(): void;
+}
+
+
+/**
+ * An enum of the value precedence layers for a property.
+ *
+ * #### Notes
+ * The effective value of a property is computed from the layer with
+ * the highest precedence which has a value. If no layer has a value,
+ * the inherited or default value is used.
+ */
+export
+enum PropertyLayer {
+  /**
+   * The layer for values supplied by a style or theme.
+   */
+  Style,
+
+  /**
+   * The layer for values supplied by [[Property.set]].
+   */
+  Local,
+
+  /**
+   * The layer for values supplied by an animation.
+   */
+  Animation,
 }
 
 
@@ -55,6 +141,77 @@ interface IPropertyOwner {
  */
 export
 interface IPropertyOptions<T, U> {
+  /**
+   * The human readable name for the property.
+   *
+   * #### Notes
+   * By convention, this should be the name of the public accessor
+   * for the property, i.e. the static member name minus the suffix
+   * `'Property'`.
+   */
+  name?: string;
+
+  /**
+   * The class type which defines the property.
+   *
+   * #### Notes
+   * If this is provided along with a [[name]], the property will be
+   * added to the global property registry and can be retrieved with
+   * the [[findProperty]] function.
+   */
+  ownerType?: Function;
+
+  /**
+   * A human readable description of the property.
+   */
+  description?: string;
+
+  /**
+   * Whether the property value is inherited from the owner's parent.
+   *
+   * If this is `true`, an owner which does not have a value for the
+   * property will use the value of its nearest ancestor which does.
+   * The parent chain is resolved with the current inheritance resolver,
+   * which is set with the [[setInheritanceResolver]] function.
+   *
+   * #### Notes
+   * If no ancestor has a value, the default value is computed for and
+   * assigned to the root of the parent chain.
+   *
+   * When the value changes for an owner, the `changed` callback will
+   * be invoked and the `propertyChanged` signal will be emitted for
+   * each descendant which inherits the value.
+   *
+   * The default is `false`.
+   */
+  inherits?: boolean;
+
+  /**
+   * Whether the property value is included in a property snapshot.
+   *
+   * #### Notes
+   * The default is `true`. See [[snapshotProperties]].
+   */
+  persist?: boolean;
+
+  /**
+   * A function used to convert a value into a JSON-serializable form.
+   *
+   * #### Notes
+   * This is used by [[snapshotProperties]]. If it is not provided, the
+   * value is assumed to already be JSON-serializable.
+   */
+  serialize?: (value: U) => any;
+
+  /**
+   * A function used to convert serialized data back into a value.
+   *
+   * #### Notes
+   * This is used by [[restoreProperties]]. If it is not provided, the
+   * data is used as the value unmodified.
+   */
+  deserialize?: (data: any) => U;
+
   /**
    * The default value for the property.
    *
@@ -74,6 +231,22 @@ interface IPropertyOptions<T, U> {
    */
   create?: (owner: T) => U;
 
+  /**
+   * A function used to validate a supplied value.
+   *
+   * This will be called whenever a value is supplied to the property.
+   * It should return a message describing why the value is invalid,
+   * or an empty string (or `null`) if the value is valid.
+   *
+   * #### Notes
+   * The value is validated **before** it is coerced. If the value is
+   * rejected, the stored value is not modified and no notifications
+   * are emitted.
+   *
+   * This will **not** be called for the initial default value.
+   */
+  validate?: (owner: T, value: U) => string;
+
   /**
    * A function used to coerce a supplied value into the final value.
    *
@@ -110,11 +283,168 @@ interface IPropertyOptions<T, U> {
    *
    * This will be invoked **before** the [[propertyChanged]] signal
    * is emitted on the property owner.
+   *
+   * This is invoked immediately for every change, even when the
+   * change is made during a [[batchPropertyChanges]] call.
+   *
+   * If this callback, or a `propertyChanged` handler, changes the same
+   * property for the same owner, the nested change takes effect
+   * immediately, but its notification is queued until the current
+   * notification has finished. Handlers therefore observe the changes
+   * in order, with each `oldValue` equal to the previous `newValue`.
+   * See [[setMaxChangeDepth]] for the protection against endless
+   * change loops.
+   */
+  changed?: (owner: T, oldValue: U, newValue: U) => void;
+
+  /**
+   * The properties on which the coerced value depends.
+   *
+   * When the value of one of these properties changes for an owner,
+   * this property will be automatically coerced for the same owner.
+   *
+   * #### Notes
+   * This has the same effect as calling [[coerce]] from a `changed`
+   * callback, for constraints such as `minimum <= value <= maximum`.
+   * A read-only property is coerced without requiring its key.
+   *
+   * When a change causes several dependent properties to be coerced,
+   * each is coerced once, in the order the properties were created.
+   * Since a property can only depend on properties created before it,
+   * a property is always coerced after the properties it depends on.
+   *
+   * If a dependent property is coerced and a handler causes it to be
+   * coerced again during the same change, a cyclic dependency error
+   * is thrown.
+   */
+  coerceWith?: Property<any, any>[];
+
+  /**
+   * Whether to observe item-level mutations of the property value.
+   *
+   * #### Notes
+   * When this is `true` and the value stored for an owner is an
+   * [[ObservableList]] or an [[ObservableMap]], the mutations of the
+   * collection are reported by the [[Property.itemsChanged]] signal.
+   *
+   * Only an owner which stores the collection is notified. Owners
+   * which inherit the collection from an ancestor are not notified.
+   *
+   * The default is `false`.
+   */
+  observeItems?: boolean;
+}
+
+
+/**
+ * The options object used to override the metadata of a property.
+ *
+ * #### Notes
+ * See [[Property.override]].
+ */
+export
+interface IPropertyOverride<T, U> {
+  /**
+   * The default value for the property.
+   */
+  value?: U;
+
+  /**
+   * A factory function used to create the default property value.
+   */
+  create?: (owner: T) => U;
+
+  /**
+   * A function used to coerce a supplied value into the final value.
+   */
+  coerce?: (owner: T, value: U) => U;
+
+  /**
+   * A function called when the property value has changed.
    */
   changed?: (owner: T, oldValue: U, newValue: U) => void;
 }
 
 
+/**
+ * The result object returned by [[Property.trySet]].
+ */
+export
+interface IPropertySetResult {
+  /**
+   * Whether the value was accepted by the property.
+   */
+  success: boolean;
+
+  /**
+   * The validation error for a rejected value.
+   *
+   * This will be `null` if the value was accepted.
+   */
+  error: PropertyValidationError;
+}
+
+
+/**
+ * An error thrown when a value is rejected by a property validator.
+ */
+export
+class PropertyValidationError extends Error {
+  /**
+   * Construct a new property validation error.
+   *
+   * @param property - The property which rejected the value.
+   *
+   * @param owner - The property owner for which the value was supplied.
+   *
+   * @param reason - The message describing why the value is invalid.
+   */
+  constructor(property: Property<any, any>, owner: IPropertyOwner, reason: string) {
+    super();
+    var name = property.name ? ' \'' + property.name + '\'' : '';
+    this.name = 'PropertyValidationError';
+    this.message = 'Invalid value for property' + name + ': ' + reason;
+    this._property = property;
+    this._owner = owner;
+    this._reason = reason;
+  }
+
+  /**
+   * Get the property which rejected the value.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get property(): Property<any, any> {
+    return this._property;
+  }
+
+  /**
+   * Get the property owner for which the value was supplied.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get owner(): IPropertyOwner {
+    return this._owner;
+  }
+
+  /**
+   * Get the message describing why the value is invalid.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get reason(): string {
+    return this._reason;
+  }
+
+  private _property: Property<any, any>;
+  private _owner: IPropertyOwner;
+  private _reason: string;
+}
+
+
 /**
  * A property descriptor for a property on an object.
  *
@@ -157,11 +487,111 @@ class Property<T extends IPropertyOwner, U> {
    * @param options - The options for initializing the property.
    */
   constructor(options: IPropertyOptions<T, U> = {}) {
-    this._value = options.value;
-    this._create = options.create;
-    this._coerce = options.coerce;
+    this._name = options.name || '';
+    this._ownerType = options.ownerType || null;
+    this._description = options.description || '';
+    this._metadata = {
+      value: options.value,
+      create: options.create,
+      coerce: options.coerce,
+      changed: options.changed,
+    };
+    this._validate = options.validate;
     this._compare = options.compare;
-    this._changed = options.changed;
+    this._inherits = !!options.inherits;
+    this._persist = options.persist !== false;
+    this._serialize = options.serialize;
+    this._deserialize = options.deserialize;
+    this._observeItems = !!options.observeItems;
+    (options.coerceWith || []).forEach(source => {
+      source._dependents.push(this);
+    });
+    propertyInternals.set(this, {
+      pid: this._pid,
+      compareValues: (oldValue: U, newValue: U) => {
+        return this._compareValues(oldValue, newValue);
+      },
+      order: this._order,
+      coerce: (owner: T) => { this._coerce(owner); },
+      validateValue: (owner: T, value: U) => {
+        return this._validateValue(owner, value);
+      },
+      currentValue: (owner: T, hash: PropertyHash) => {
+        return this._currentValue(owner, hash);
+      },
+      coerceValue: (owner: T, value: U) => {
+        return this._coerceValue(owner, value);
+      },
+      maybeNotify: (owner: T, oldValue: U, newValue: U) => {
+        this._maybeNotify(owner, oldValue, newValue);
+      },
+      persist: this._persist,
+      serialize: this._serialize,
+      deserialize: this._deserialize,
+    });
+    if (this._name && this._ownerType) registerProperty(this);
+  }
+
+  /**
+   * A signal emitted when the property value changes for any owner.
+   *
+   * #### Notes
+   * This is emitted immediately after the `propertyChanged` signal of
+   * the owner, and follows the same batching behavior.
+   *
+   * This is useful for observing a single property across all owners
+   * without connecting to the `propertyChanged` signal of each owner.
+   */
+  @defineSignal
+  valueChanged: ISignal<IPropertyValueChangedArgs>;
+
+  /**
+   * A signal emitted when the collection value of an owner is mutated.
+   *
+   * #### Notes
+   * This is only emitted for a property created with `observeItems`,
+   * and only when the value is an [[ObservableList]] or [[ObservableMap]].
+   *
+   * The collection is mutated in place, so the `propertyChanged` signal
+   * of the owner is not emitted.
+   */
+  @defineSignal
+  itemsChanged: ISignal<IPropertyItemsChangedArgs>;
+
+  /**
+   * Get the human readable name for the property.
+   *
+   * #### Notes
+   * This will be an empty string if a name was not provided.
+   *
+   * This is a read-only property.
+   */
+  get name(): string {
+    return this._name;
+  }
+
+  /**
+   * Get the class type which defines the property.
+   *
+   * #### Notes
+   * This will be `null` if an owner type was not provided.
+   *
+   * This is a read-only property.
+   */
+  get ownerType(): Function {
+    return this._ownerType;
+  }
+
+  /**
+   * Get the human readable description of the property.
+   *
+   * #### Notes
+   * This will be an empty string if a description was not provided.
+   *
+   * This is a read-only property.
+   */
+  get description(): string {
+    return this._description;
   }
 
   /**
@@ -174,14 +604,21 @@ class Property<T extends IPropertyOwner, U> {
    * #### Notes
    * If the value has not yet been set, the default value will be
    * computed and assigned as the current value of the property.
+   *
+   * If the property is inherited and the value has not been set, the
+   * value of the nearest ancestor will be returned instead.
    */
   get(owner: T): U {
     var value: U;
-    var hash = lookupHash(owner);
+    var hash = lookupHash(owner, this);
+    trackDependency(owner, this);
     if (this._pid in hash) {
       value = hash[this._pid];
+    } else if (this._inherits) {
+      value = this._inheritValue(owner);
     } else {
       value = hash[this._pid] = this._createValue(owner);
+      if (this._observeItems) observeItems(this, owner, value);
     }
     return value;
   }
@@ -199,137 +636,5024 @@ class Property<T extends IPropertyOwner, U> {
    *
    * If the value has not yet been set, the default value will be
    * computed and used as the previous value for the comparison.
+   *
+   * This writes the value to the `Local` layer. If a layer with a
+   * higher precedence has a value, the effective value of the
+   * property will not be affected.
+   *
+   * If the value is rejected by the `validate` function, this will
+   * throw a [[PropertyValidationError]].
    */
   set(owner: T, value: U): void {
-    var oldValue: U;
-    var hash = lookupHash(owner);
-    if (this._pid in hash) {
-      oldValue = hash[this._pid];
-    } else {
-      oldValue = this._createValue(owner);
-    }
-    var newValue = this._coerceValue(owner, value);
-    this._maybeNotify(owner, oldValue, hash[this._pid] = newValue);
+    this._setLayer(owner, PropertyLayer.Local, value);
   }
 
   /**
-   * Explicitly coerce the current property value for a given owner.
+   * Set the current value of the property without throwing.
    *
    * @param owner - The property owner of interest.
    *
+   * @param value - The value for the property.
+   *
+   * @returns A result object indicating whether the value was accepted.
+   *
    * #### Notes
-   * If this operation causes the property value to change, the
-   * `propertyChanged` signal of the owner will be emitted.
+   * This is the same as [[set]], except a value rejected by the
+   * `validate` function is reported via the result object instead
+   * of by throwing an error.
    *
-   * If the value has not yet been set, the default value will be
-   * computed and used as the previous value for the comparison.
+   * If the write is cancelled by an interceptor, the result will not
+   * be successful, but its `error` will be `null`.
    */
-  coerce(owner: T): void {
-    var oldValue: U;
-    var hash = lookupHash(owner);
-    if (this._pid in hash) {
-      oldValue = hash[this._pid];
-    } else {
-      oldValue = this._createValue(owner);
-    }
-    var newValue = this._coerceValue(owner, oldValue);
-    this._maybeNotify(owner, oldValue, hash[this._pid] = newValue);
+  trySet(owner: T, value: U): IPropertySetResult {
+    var error: PropertyValidationError = null;
+    var layer = PropertyLayer.Local;
+    var done = interceptWrite(this, owner, 'set', layer, value, (value: U) => {
+      error = this._validateValue(owner, value);
+      if (!error) this._writeLayer(owner, layer, value);
+    });
+    return { success: done && !error, error: error };
   }
 
   /**
-   * Get or create the default value for the given owner.
+   * Get the value of a precedence layer for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * @param layer - The precedence layer of interest.
+   *
+   * @returns The value of the layer, or `undefined` if the layer
+   *   does not have a value.
+   *
+   * #### Notes
+   * This returns the value as supplied to the layer, before coercion.
    */
-  private _createValue(owner: T): U {
-    var create = this._create;
-    return create ? create(owner) : this._value;
+  getLayerValue(owner: T, layer: PropertyLayer): U {
+    var layers = lookupLayers(owner, this._pid, false);
+    return layers !== void 0 ? layers[layer] : void 0;
   }
 
   /**
-   * Coerce the value for the given owner.
+   * Test whether a precedence layer has a value for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * @param layer - The precedence layer of interest.
+   *
+   * @returns `true` if the layer has a value, `false` otherwise.
    */
-  private _coerceValue(owner: T, value: U): U {
-    var coerce = this._coerce;
-    return coerce ? coerce(owner, value) : value;
+  hasLayerValue(owner: T, layer: PropertyLayer): boolean {
+    var layers = lookupLayers(owner, this._pid, false);
+    return layers !== void 0 && layer in layers;
   }
 
   /**
-   * Compare the old value and new value for equality.
-   */
-  private _compareValues(oldValue: U, newValue: U): boolean {
-    var compare = this._compare;
+   * Set the value of a precedence layer for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * @param layer - The precedence layer to modify.
+   *
+   * @param value - The value for the layer.
+   *
+   * #### Notes
+   * The effective value is recomputed from the layer with the highest
+   * precedence and passed through the `coerce` function. If this causes
+   * the effective value to change, the `propertyChanged` signal of the
+   * owner will be emitted.
+   *
+   * If the value is rejected by the `validate` function, this will
+   * throw a [[PropertyValidationError]].
+   */
+  setLayerValue(owner: T, layer: PropertyLayer, value: U): void {
+    this._setLayer(owner, layer, value);
+  }
+
+  /**
+   * Clear the value of a precedence layer for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * @param layer - The precedence layer to clear.
+   *
+   * #### Notes
+   * The effective value is recomputed from the remaining layer with
+   * the highest precedence and passed through the `coerce` function.
+   * If no layer has a value, the inherited or default value is used.
+   * If this causes the effective value to change, the `propertyChanged`
+   * signal of the owner will be emitted.
+   *
+   * This is a no-op if the layer does not have a value.
+   */
+  clearLayerValue(owner: T, layer: PropertyLayer): void {
+    var layers = lookupLayers(owner, this._pid, false);
+    if (layers === void 0 || !(layer in layers)) {
+      return;
+    }
+    delete layers[layer];
+    this._updateValue(owner);
+  }
+
+  /**
+   * Explicitly coerce the current property value for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * #### Notes
+   * If this operation causes the property value to change, the
+   * `propertyChanged` signal of the owner will be emitted.
+   *
+   * If the value has not yet been set, the default value will be
+   * computed and used as the previous value for the comparison.
+   *
+   * The value of the layer with the highest precedence is coerced, so
+   * relaxing a constraint restores as much of that value as allowed.
+   * If no layer has a value, the current value is coerced.
+   *
+   * If the property is inherited and the owner does not store a value,
+   * the inherited value is left as-is, since it is coerced by the owner
+   * from which it is inherited.
+   */
+  coerce(owner: T): void {
+    this._coerce(owner);
+  }
+
+  /**
+   * Test whether the property has a stored value for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * @returns `true` if a value has been set or materialized for the
+   *   owner, `false` otherwise.
+   *
+   * #### Notes
+   * A default value is materialized when it is first read by [[get]].
+   * An inherited value is not considered stored by the descendant.
+   */
+  has(owner: T): boolean {
+    var hash = ownerData.get(owner);
+    return hash !== void 0 && this._pid in hash;
+  }
+
+  /**
+   * Clear the stored value of the property for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * #### Notes
+   * This clears the value and all of the precedence layers for the
+   * property, but it will **not** emit any change notifications.
+   */
+  clear(owner: T): void {
+    var hash = ownerData.get(owner);
+    if (hash !== void 0) delete hash[this._pid];
+    var layers = layerData.get(owner);
+    if (layers !== void 0) delete layers[this._pid];
+    if (this._observeItems) observeItems(this, owner, null);
+    stopTransition(owner, this);
+  }
+
+  /**
+   * Reset the property to its default value for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * #### Notes
+   * This clears all of the precedence layers for the property and
+   * restores the inherited or default value. If this causes the value
+   * to change, the `changed` callback will be invoked and the owner's
+   * `propertyChanged` signal will be emitted.
+   *
+   * This is a no-op if the property has no stored value.
+   */
+  reset(owner: T): void {
+    stopTransition(owner, this);
+    if (!this.has(owner)) {
+      return;
+    }
+    var layers = layerData.get(owner);
+    if (layers !== void 0) delete layers[this._pid];
+    this._updateValue(owner);
+  }
+
+  /**
+   * Override the property metadata for a class type.
+   *
+   * @param ownerType - The class type for which to override the
+   *   metadata. This is typically a subclass of the owner type.
+   *
+   * @param options - The metadata to use for the class type and its
+   *   subclasses. Only the provided options are overridden.
+   *
+   * #### Notes
+   * The metadata for an owner is resolved by walking the prototype
+   * chain of the owner and using the most specific override for each
+   * option. Options which are not overridden use the values provided
+   * to the property constructor.
+   *
+   * The `value` and `create` options are overridden as a unit. If an
+   * override provides either one, the other is ignored from the less
+   * specific metadata.
+   *
+   * This will throw an error if the metadata for the class type has
+   * already been overridden.
+   */
+  override(ownerType: Function, options: IPropertyOverride<T, U>): void {
+    if (this._overrides === null) {
+      this._overrides = new Map<Function, IPropertyOverride<T, U>>();
+    }
+    if (this._overrides.has(ownerType)) {
+      throw new Error('Property metadata already overridden for type.');
+    }
+    this._overrides.set(ownerType, options);
+    this._metadataCache = new WeakMap<Function, IPropertyOverride<T, U>>();
+  }
+
+  /**
+   * Get the current value for the given owner without assigning it.
+   *
+   * If the value has not been set, the inherited or default value
+   * is returned.
+   */
+  private _currentValue(owner: T, hash: PropertyHash): U {
+    var value: U;
+    if (this._pid in hash) {
+      value = hash[this._pid];
+    } else if (this._inherits) {
+      value = this._inheritValue(owner);
+    } else {
+      value = this._createValue(owner);
+    }
+    return value;
+  }
+
+  /**
+   * Intercept, validate, and write a value to a layer.
+   *
+   * This throws a validation error if the value is rejected.
+   */
+  private _setLayer(owner: T, layer: PropertyLayer, value: U): void {
+    interceptWrite(this, owner, 'set', layer, value, (value: U) => {
+      var error = this._validateValue(owner, value);
+      if (error) {
+        throw error;
+      }
+      this._writeLayer(owner, layer, value);
+    });
+  }
+
+  /**
+   * Intercept and coerce the current value for an owner.
+   *
+   * This bypasses any access checks performed by subclasses.
+   */
+  private _coerce(owner: T): void {
+    var hash = lookupHash(owner, this);
+    var oldValue = this._currentValue(owner, hash);
+    var layers = lookupLayers(owner, this._pid, false);
+    var layer = layers !== void 0 ? topLayer(layers) : -1;
+    var input = layer !== -1 ? layers[layer] : oldValue;
+    interceptWrite(this, owner, 'coerce', null, input, (value: U) => {
+      if (this._inherits && !(this._pid in hash)) {
+        this._maybeNotify(owner, oldValue, this._currentValue(owner, hash));
+        return;
+      }
+      var newValue = this._coerceValue(owner, value);
+      this._maybeNotify(owner, oldValue, hash[this._pid] = newValue);
+    });
+  }
+
+  /**
+   * Write a validated value to a layer and update the effective value.
+   *
+   * A write to the `Local` layer cancels an in-flight transition, and
+   * removes its animated value without a separate notification.
+   */
+  private _writeLayer(owner: T, layer: PropertyLayer, value: U): void {
+    var layers = lookupLayers(owner, this._pid, true);
+    if (layer === PropertyLayer.Local && stopTransition(owner, this)) {
+      delete layers[PropertyLayer.Animation];
+    }
+    layers[layer] = value;
+    this._updateValue(owner);
+  }
+
+  /**
+   * Recompute the effective value for the given owner from its layers.
+   */
+  private _updateValue(owner: T): void {
+    var hash = lookupHash(owner, this);
+    var oldValue = this._currentValue(owner, hash);
+    var layers = lookupLayers(owner, this._pid, false);
+    var newValue: U;
+    var layer = layers !== void 0 ? topLayer(layers) : -1;
+    if (layer !== -1) {
+      newValue = hash[this._pid] = this._coerceValue(owner, layers[layer]);
+    } else if (this._inherits) {
+      delete hash[this._pid];
+      newValue = this._inheritValue(owner);
+    } else {
+      newValue = hash[this._pid] = this._createValue(owner);
+    }
+    this._maybeNotify(owner, oldValue, newValue);
+  }
+
+  /**
+   * Get or create the default value for the given owner.
+   */
+  private _createValue(owner: T): U {
+    var metadata = this._lookupMetadata(owner);
+    var create = metadata.create;
+    return create ? create(owner) : metadata.value;
+  }
+
+  /**
+   * Lookup the resolved metadata for the given owner.
+   */
+  private _lookupMetadata(owner: T): IPropertyOverride<T, U> {
+    var ownerType: Function = owner.constructor;
+    if (this._overrides === null || typeof ownerType !== 'function') {
+      return this._metadata;
+    }
+    var metadata = this._metadataCache.get(ownerType);
+    if (metadata === void 0) {
+      metadata = this._resolveMetadata(ownerType);
+      this._metadataCache.set(ownerType, metadata);
+    }
+    return metadata;
+  }
+
+  /**
+   * Resolve the metadata for a class type from its overrides.
+   */
+  private _resolveMetadata(ownerType: Function): IPropertyOverride<T, U> {
+    var base = this._metadata;
+    var result: IPropertyOverride<T, U> = {};
+    var hasDefault = false;
+    var hasCoerce = false;
+    var hasChanged = false;
+    for (var type = ownerType; type; type = baseType(type)) {
+      var options = this._overrides.get(type);
+      if (options === void 0) {
+        continue;
+      }
+      if (!hasDefault && ('value' in options || 'create' in options)) {
+        result.value = options.value;
+        result.create = options.create;
+        hasDefault = true;
+      }
+      if (!hasCoerce && 'coerce' in options) {
+        result.coerce = options.coerce;
+        hasCoerce = true;
+      }
+      if (!hasChanged && 'changed' in options) {
+        result.changed = options.changed;
+        hasChanged = true;
+      }
+    }
+    if (!hasDefault) {
+      result.value = base.value;
+      result.create = base.create;
+    }
+    if (!hasCoerce) result.coerce = base.coerce;
+    if (!hasChanged) result.changed = base.changed;
+    return result;
+  }
+
+  /**
+   * Get the inherited value for an owner without a local value.
+   *
+   * If no ancestor has a value, the default value is assigned to the
+   * root of the parent chain.
+   */
+  private _inheritValue(owner: T): U {
+    var root: IPropertyOwner = owner;
+    var parent = inheritanceResolver.parent(owner);
+    while (parent) {
+      var hash = ownerData.get(parent);
+      if (hash !== void 0 && this._pid in hash) {
+        return hash[this._pid];
+      }
+      root = parent;
+      parent = inheritanceResolver.parent(parent);
+    }
+    var value = lookupHash(root, this)[this._pid] = this._createValue(<T>root);
+    if (this._observeItems) observeItems(this, root, value);
+    return value;
+  }
+
+  /**
+   * Validate the value for the given owner.
+   *
+   * Returns a validation error if the value is rejected, or `null`.
+   */
+  private _validateValue(owner: T, value: U): PropertyValidationError {
+    var validate = this._validate;
+    var reason = validate ? validate(owner, value) : null;
+    return reason ? new PropertyValidationError(this, owner, reason) : null;
+  }
+
+  /**
+   * Coerce the value for the given owner.
+   */
+  private _coerceValue(owner: T, value: U): U {
+    var coerce = this._lookupMetadata(owner).coerce;
+    return coerce ? coerce(owner, value) : value;
+  }
+
+  /**
+   * Compare the old value and new value for equality.
+   */
+  private _compareValues(oldValue: U, newValue: U): boolean {
+    var compare = this._compare;
     return compare ? compare(oldValue, newValue) : oldValue === newValue;
   }
 
   /**
-   * Run the change notification if the given values are different.
+   * Run the change notification if the given values are different.
+   */
+  protected _maybeNotify(owner: T, oldValue: U, newValue: U): void {
+    if (this._observeItems) {
+      var hash = ownerData.get(owner);
+      var stored = hash !== void 0 && this._pid in hash;
+      observeItems(this, owner, stored ? hash[this._pid] : null);
+    }
+    if (!this._compareValues(oldValue, newValue)) {
+      this._notifyOwner(owner, oldValue, newValue, false);
+      if (this._inherits) this._notifyInheritors(owner, oldValue, newValue);
+    }
+  }
+
+  /**
+   * Run the change notification for a single owner.
+   *
+   * If a notification for this property and owner is already running,
+   * the change is queued and dispatched when that notification has
+   * finished, so that the handlers observe the changes in order.
+   *
+   * The `inherited` flag is `true` when the owner is notified because
+   * the value it inherits from an ancestor has changed.
+   */
+  private _notifyOwner(owner: T, oldValue: U, newValue: U, inherited: boolean): void {
+    var active = activeChanges.get(owner);
+    if (active === void 0) {
+      active = Object.create(null);
+      activeChanges.set(owner, active);
+    }
+    var queue = active[this._pid];
+    if (queue !== void 0) {
+      queue.push({ oldValue: oldValue, newValue: newValue, inherited: inherited });
+      return;
+    }
+    queue = active[this._pid] = [
+      { oldValue: oldValue, newValue: newValue, inherited: inherited }
+    ];
+    try {
+      for (var i = 0; i < queue.length; ++i) {
+        if (i >= maxChangeDepth) {
+          throw changeDepthError(this);
+        }
+        var change = queue[i];
+        this._dispatchChange(owner, change.oldValue, change.newValue, change.inherited);
+      }
+    } finally {
+      delete active[this._pid];
+    }
+  }
+
+  /**
+   * Dispatch a change notification for a single owner.
+   *
+   * This invokes the `changed` callback, the interceptor `notify`
+   * hooks, and emits the change signal. The notification depth is
+   * increased while the handlers run so that tracing can record the
+   * nesting of changes made by those handlers.
+   */
+  private _dispatchChange(owner: T, oldValue: U, newValue: U, inherited: boolean): void {
+    if (notifyDepth >= maxChangeDepth) {
+      throw changeDepthError(this);
+    }
+    var args = changedArgs(this, oldValue, newValue);
+    if (inherited) inheritedChanges.add(args);
+    if (traceEnabled) recordTrace(owner, args);
+    var changed = this._lookupMetadata(owner).changed;
+    notifyDepth++;
+    try {
+      if (changed) changed(owner, oldValue, newValue);
+      interceptNotify(owner, args);
+      emitChanged(owner, args);
+      invalidateDependents(owner, this);
+    } finally {
+      notifyDepth--;
+    }
+    if (this._dependents.length > 0) {
+      coerceDependents(owner, this._dependents);
+    }
+  }
+
+  /**
+   * Run the change notification for the descendants of an owner.
+   *
+   * Descendants which have a local value, and their subtrees, are
+   * skipped since they do not inherit the changed value.
+   */
+  private _notifyInheritors(owner: T, oldValue: U, newValue: U): void {
+    var children = inheritanceResolver.children(owner);
+    for (var i = 0, n = children.length; i < n; ++i) {
+      var child = <T>children[i];
+      var hash = ownerData.get(child);
+      if (hash !== void 0 && this._pid in hash) {
+        continue;
+      }
+      this._notifyOwner(child, oldValue, newValue, true);
+      this._notifyInheritors(child, oldValue, newValue);
+    }
+  }
+
+  private _name: string;
+  private _ownerType: Function;
+  private _description: string;
+  private _pid = nextPID();
+  private _order = nextOrder();
+  private _dependents: Property<any, any>[] = [];
+  private _metadata: IPropertyOverride<T, U>;
+  private _overrides: Map<Function, IPropertyOverride<T, U>> = null;
+  private _metadataCache: WeakMap<Function, IPropertyOverride<T, U>> = null;
+  private _validate: (owner: T, value: U) => string;
+  private _compare: (oldValue: U, newValue: U) => boolean;
+  private _inherits: boolean;
+  private _observeItems: boolean;
+  private _persist: boolean;
+  private _serialize: (value: U) => any;
+  private _deserialize: (data: any) => U;
+}
+
+
+/**
+ * The options object used to initialize a computed property.
+ */
+export
+interface IComputedPropertyOptions<T, U> {
+  /**
+   * The human readable name for the property.
+   */
+  name?: string;
+
+  /**
+   * The class type which defines the property.
+   *
+   * #### Notes
+   * If this is provided along with a [[name]], the property will be
+   * added to the global property registry.
+   */
+  ownerType?: Function;
+
+  /**
+   * A human readable description of the property.
+   */
+  description?: string;
+
+  /**
+   * A function used to compute the property value for an owner.
+   *
+   * #### Notes
+   * Any property values read via [[Property.get]] while this function
+   * is running are tracked as dependencies of the computed value.
+   */
+  compute: (owner: T) => U;
+
+  /**
+   * A function used to compare two values for equality.
+   *
+   * #### Notes
+   * If this is not provided, the comparison uses the `===` operator.
+   */
+  compare?: (oldValue: U, newValue: U) => boolean;
+
+  /**
+   * A function called when the computed value has changed.
+   *
+   * #### Notes
+   * This will **not** be called for the initial computed value.
+   */
+  changed?: (owner: T, oldValue: U, newValue: U) => void;
+}
+
+
+/**
+ * A property descriptor for a value computed from other properties.
+ *
+ * A computed property caches its value for each owner. The values of
+ * other properties read while computing the value are tracked as its
+ * dependencies. When any dependency changes, the value is recomputed
+ * and the `propertyChanged` signal of the owner is emitted if the new
+ * value differs from the cached value.
+ *
+ * #### Notes
+ * Dependencies are tracked anew each time the value is computed, so
+ * conditional dependencies are supported. The dependencies may belong
+ * to owners other than the owner of the computed property.
+ *
+ * A computed property is read-only. Attempting to set its value will
+ * throw an error.
+ *
+ * #### Example
+ * ```typescript
+ * class Rect {
+ *
+ *   static widthProperty = new Property<Rect, number>({ value: 0 });
+ *
+ *   static heightProperty = new Property<Rect, number>({ value: 0 });
+ *
+ *   static areaProperty = new ComputedProperty<Rect, number>({
+ *     compute: owner => owner.width * owner.height,
+ *   });
+ *
+ *   @defineSignal
+ *   propertyChanged: ISignal<IPropertyChangedArgs>;
+ *
+ *   // width and height getters/setters elided
+ *
+ *   get area(): number {
+ *     return Rect.areaProperty.get(this);
+ *   }
+ * }
+ * ```
+ */
+export
+class ComputedProperty<T extends IPropertyOwner, U> extends Property<T, U> {
+  /**
+   * Construct a new computed property descriptor.
+   *
+   * @param options - The options for initializing the property.
+   */
+  constructor(options: IComputedPropertyOptions<T, U>) {
+    super({
+      name: options.name,
+      ownerType: options.ownerType,
+      description: options.description,
+      compare: options.compare,
+      changed: options.changed,
+    });
+    this._compute = options.compute;
+  }
+
+  /**
+   * Get the current value of the property for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * @returns The current computed value of the property.
+   *
+   * #### Notes
+   * If the value has not yet been computed for the owner, it will be
+   * computed and cached, and its dependencies will be tracked.
+   */
+  get(owner: T): U {
+    trackDependency(owner, this);
+    var entry = this._entries.get(owner);
+    if (entry === void 0) {
+      entry = this._createEntry(owner);
+    }
+    return entry.value;
+  }
+
+  /**
+   * Recompute the property value for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * #### Notes
+   * This can be used to refresh the value when the compute function
+   * depends on state which is not tracked by a property.
+   *
+   * If this operation causes the property value to change, the
+   * `propertyChanged` signal of the owner will be emitted.
+   */
+  coerce(owner: T): void {
+    var entry = this._entries.get(owner);
+    if (entry === void 0) {
+      this._createEntry(owner);
+    } else {
+      entry.invalidate();
+    }
+  }
+
+  /**
+   * Test whether the value is cached for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * @returns `true` if the value has been computed and cached for
+   *   the owner, `false` otherwise.
+   */
+  has(owner: T): boolean {
+    return this._entries.has(owner);
+  }
+
+  /**
+   * Clear the cached value for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * #### Notes
+   * This stops tracking the dependencies for the owner. The value will
+   * be recomputed the next time it is read. No change notifications
+   * are emitted.
+   */
+  clear(owner: T): void {
+    var entry = this._entries.get(owner);
+    if (entry === void 0) {
+      return;
+    }
+    this._entries.delete(owner);
+    var sources = dependencySources(entry.dependencies);
+    for (var i = 0, n = sources.length; i < n; ++i) {
+      untrackDependent(sources[i], entry);
+    }
+    entry.dependencies = [];
+  }
+
+  /**
+   * Reset the property for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * #### Notes
+   * A computed property has no stored value to reset, so this is the
+   * same as [[coerce]] for an owner with a cached value, and a no-op
+   * otherwise.
+   */
+  reset(owner: T): void {
+    if (this.has(owner)) this.coerce(owner);
+  }
+
+  /**
+   * Set the current value of the property for a given owner.
+   *
+   * #### Notes
+   * A computed property is read-only, so this will always throw.
+   */
+  set(owner: T, value: U): void {
+    throw new Error('Cannot set the value of a computed property.');
+  }
+
+  /**
+   * Set the value of a precedence layer for a given owner.
+   *
+   * #### Notes
+   * A computed property is read-only, so this will always throw.
+   */
+  setLayerValue(owner: T, layer: PropertyLayer, value: U): void {
+    throw new Error('Cannot set the value of a computed property.');
+  }
+
+  /**
+   * Set the current value of the property without throwing.
+   *
+   * #### Notes
+   * A computed property is read-only, so this will always fail.
+   */
+  trySet(owner: T, value: U): IPropertySetResult {
+    return { success: false, error: null };
+  }
+
+  /**
+   * Create and cache the computed entry for the given owner.
+   */
+  private _createEntry(owner: T): IComputedEntry {
+    var entry: IComputedEntry = {
+      value: void 0,
+      dependencies: [],
+      invalidate: () => { this._update(owner, entry); },
+    };
+    entry.value = this._evaluate(entry, owner);
+    this._entries.set(owner, entry);
+    return entry;
+  }
+
+  /**
+   * Recompute the value for an owner and notify if it changed.
+   */
+  private _update(owner: T, entry: IComputedEntry): void {
+    var oldValue = entry.value;
+    var newValue = entry.value = this._evaluate(entry, owner);
+    this._maybeNotify(owner, oldValue, newValue);
+  }
+
+  /**
+   * Compute the value for an owner and update its dependencies.
+   */
+  private _evaluate(entry: IComputedEntry, owner: T): U {
+    var value: U;
+    var dependencies: IDependency[] = [];
+    var previous = currentDependencies;
+    currentDependencies = dependencies;
+    try {
+      value = this._compute(owner);
+    } finally {
+      currentDependencies = previous;
+    }
+    var oldSources = dependencySources(entry.dependencies);
+    var newSources = dependencySources(dependencies);
+    for (var i = 0, n = oldSources.length; i < n; ++i) {
+      if (newSources.indexOf(oldSources[i]) === -1) {
+        untrackDependent(oldSources[i], entry);
+      }
+    }
+    for (var i = 0, n = newSources.length; i < n; ++i) {
+      trackDependent(newSources[i], entry);
+    }
+    entry.dependencies = dependencies;
+    return value;
+  }
+
+  private _compute: (owner: T) => U;
+  private _entries = new WeakMap<T, IComputedEntry>();
+}
+
+
+/**
+ * The options object used to initialize a read-only property.
+ */
+export
+interface IReadOnlyPropertyOptions<T, U> extends IPropertyOptions<T, U> {
+  /**
+   * The key object required to modify the property value.
+   *
+   * #### Notes
+   * This should be a private object held by the defining module.
+   */
+  key: any;
+}
+
+
+/**
+ * A property descriptor for a publicly read-only property.
+ *
+ * A read-only property can be read by anyone, but its value can only
+ * be modified by code which holds the key provided to the constructor.
+ * Each method which modifies the value accepts the key as an extra
+ * trailing argument, and throws an error if the key does not match.
+ *
+ * #### Notes
+ * Change notifications behave exactly as for a normal property.
+ *
+ * #### Example
+ * ```typescript
+ * var sizeKey = {};
+ *
+ * class MyWidget {
+ *
+ *   static sizeProperty = new ReadOnlyProperty<MyWidget, number>({
+ *     key: sizeKey,
+ *     value: 0,
+ *   });
+ *
+ *   @defineSignal
+ *   propertyChanged: ISignal<IPropertyChangedArgs>;
+ *
+ *   get size(): number {
+ *     return MyWidget.sizeProperty.get(this);
+ *   }
+ *
+ *   layout(): void {
+ *     MyWidget.sizeProperty.set(this, computeSize(this), sizeKey);
+ *   }
+ * }
+ * ```
+ */
+export
+class ReadOnlyProperty<T extends IPropertyOwner, U> extends Property<T, U> {
+  /**
+   * Construct a new read-only property descriptor.
+   *
+   * @param options - The options for initializing the property.
+   */
+  constructor(options: IReadOnlyPropertyOptions<T, U>) {
+    if (options.key === void 0 || options.key === null) {
+      throw new Error('A read-only property requires a key.');
+    }
+    super(options);
+    this._key = options.key;
+  }
+
+  /**
+   * Set the current value of the property for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * @param value - The value for the property.
+   *
+   * @param key - The key for the property.
+   *
+   * #### Notes
+   * This will throw an error if the key does not match.
+   */
+  set(owner: T, value: U, key?: any): void {
+    this._checkKey(key);
+    super.set(owner, value);
+  }
+
+  /**
+   * Set the current value of the property without throwing.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * @param value - The value for the property.
+   *
+   * @param key - The key for the property.
+   *
+   * @returns A result object indicating whether the value was accepted.
+   *
+   * #### Notes
+   * This **will** throw an error if the key does not match.
+   */
+  trySet(owner: T, value: U, key?: any): IPropertySetResult {
+    this._checkKey(key);
+    return super.trySet(owner, value);
+  }
+
+  /**
+   * Set the value of a precedence layer for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * @param layer - The precedence layer to modify.
+   *
+   * @param value - The value for the layer.
+   *
+   * @param key - The key for the property.
+   *
+   * #### Notes
+   * This will throw an error if the key does not match.
+   */
+  setLayerValue(owner: T, layer: PropertyLayer, value: U, key?: any): void {
+    this._checkKey(key);
+    super.setLayerValue(owner, layer, value);
+  }
+
+  /**
+   * Clear the value of a precedence layer for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * @param layer - The precedence layer to clear.
+   *
+   * @param key - The key for the property.
+   *
+   * #### Notes
+   * This will throw an error if the key does not match.
+   */
+  clearLayerValue(owner: T, layer: PropertyLayer, key?: any): void {
+    this._checkKey(key);
+    super.clearLayerValue(owner, layer);
+  }
+
+  /**
+   * Explicitly coerce the current property value for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * @param key - The key for the property.
+   *
+   * #### Notes
+   * This will throw an error if the key does not match.
+   */
+  coerce(owner: T, key?: any): void {
+    this._checkKey(key);
+    super.coerce(owner);
+  }
+
+  /**
+   * Clear the stored value of the property for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * @param key - The key for the property.
+   *
+   * #### Notes
+   * This will throw an error if the key does not match.
+   */
+  clear(owner: T, key?: any): void {
+    this._checkKey(key);
+    super.clear(owner);
+  }
+
+  /**
+   * Reset the property to its default value for a given owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * @param key - The key for the property.
+   *
+   * #### Notes
+   * This will throw an error if the key does not match.
+   */
+  reset(owner: T, key?: any): void {
+    this._checkKey(key);
+    super.reset(owner);
+  }
+
+  /**
+   * Throw an error if the given key does not match the property key.
+   */
+  private _checkKey(key: any): void {
+    if (key !== this._key) {
+      var name = this.name ? ' \'' + this.name + '\'' : '';
+      throw new Error('Cannot modify read-only property' + name + ' without its key.');
+    }
+  }
+
+  private _key: any;
+}
+
+
+/**
+ * The options object used to initialize a property history.
+ */
+export
+interface IPropertyHistoryOptions {
+  /**
+   * The maximum number of undo steps retained by the history.
+   *
+   * When this limit is exceeded, the oldest steps are discarded.
+   *
+   * The default is `Infinity`. A negative or `NaN` depth is rejected.
+   */
+  maxDepth?: number;
+}
+
+
+/**
+ * An object which records property changes for undo and redo.
+ *
+ * A property history records the changes reported by the
+ * `propertyChanged` signal of each attached owner. Each change is
+ * recorded as a separate undo step, unless it occurs while a group
+ * is open, in which case all changes in the group form one step.
+ *
+ * #### Notes
+ * Changes made while undoing or redoing are not recorded, including
+ * changes whose notification is deferred by [[batchPropertyChanges]].
+ *
+ * Changes to computed properties are not recorded, since they are
+ * derived from the changes of other properties. Changes to read-only
+ * properties are not recorded, since they cannot be modified without
+ * the property key. Changes to inherited values are not recorded for
+ * the inheriting owners, since they are undone through the owner from
+ * which the value is inherited.
+ *
+ * #### Example
+ * ```typescript
+ * var history = new PropertyHistory({ maxDepth: 100 });
+ * history.attach(model);
+ *
+ * history.group(() => {
+ *   Model.xProperty.set(model, 10);
+ *   Model.yProperty.set(model, 20);
+ * });
+ *
+ * history.undo();  // restores both x and y
+ * history.redo();  // reapplies both x and y
+ * ```
+ */
+export
+class PropertyHistory {
+  /**
+   * Construct a new property history.
+   *
+   * @param options - The options for initializing the history.
+   *
+   * #### Notes
+   * This will throw an error if the `maxDepth` option is negative or
+   * `NaN`.
+   */
+  constructor(options: IPropertyHistoryOptions = {}) {
+    var maxDepth = options.maxDepth === void 0 ? Infinity : options.maxDepth;
+    if (!(maxDepth >= 0)) {
+      throw new Error('Maximum history depth must be at least 0.');
+    }
+    this._maxDepth = maxDepth;
+  }
+
+  /**
+   * A signal emitted when the undo or redo availability changes.
+   *
+   * #### Notes
+   * This is emitted when the value of either [[canUndo]] or [[canRedo]]
+   * changes. The current state can be read from those properties.
+   */
+  @defineSignal
+  stateChanged: ISignal<void>;
+
+  /**
+   * Get the maximum number of undo steps retained by the history.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get maxDepth(): number {
+    return this._maxDepth;
+  }
+
+  /**
+   * Test whether there is a step which can be undone.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get canUndo(): boolean {
+    return this._undoStack.length > 0;
+  }
+
+  /**
+   * Test whether there is a step which can be redone.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get canRedo(): boolean {
+    return this._redoStack.length > 0;
+  }
+
+  /**
+   * Start recording the property changes of an owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * #### Notes
+   * This is a no-op if the owner is already attached.
+   */
+  attach(owner: IPropertyOwner): void {
+    getPropertyChangedSignal(owner).connect(this._onPropertyChanged, this);
+  }
+
+  /**
+   * Stop recording the property changes of an owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * #### Notes
+   * The changes already recorded for the owner are retained.
+   */
+  detach(owner: IPropertyOwner): void {
+    getPropertyChangedSignal(owner).disconnect(this._onPropertyChanged, this);
+  }
+
+  /**
+   * Record the changes made by a callback as a single undo step.
+   *
+   * @param callback - The function which makes the changes.
+   *
+   * #### Notes
+   * Groups may be nested. The step is recorded when the outermost
+   * group completes, even if the callback throws an error. A group
+   * which records no changes does not create a step.
+   */
+  group(callback: () => void): void {
+    this._groupDepth++;
+    try {
+      callback();
+    } finally {
+      if (--this._groupDepth === 0) {
+        var step = this._pending;
+        this._pending = [];
+        if (step.length > 0) this._pushStep(step);
+      }
+    }
+  }
+
+  /**
+   * Undo the most recent step.
+   *
+   * #### Notes
+   * The changes of the step are reverted in reverse order by setting
+   * each property back to its old value.
+   *
+   * This is a no-op if there is no step to undo.
+   */
+  undo(): void {
+    if (this._undoStack.length === 0) {
+      return;
+    }
+    this._update(() => {
+      var step = this._undoStack.pop();
+      for (var i = step.length - 1; i >= 0; --i) {
+        var change = step[i];
+        this._apply(change.owner, change.property, change.oldValue);
+      }
+      this._redoStack.push(step);
+    });
+  }
+
+  /**
+   * Redo the most recently undone step.
+   *
+   * #### Notes
+   * The changes of the step are reapplied in their original order by
+   * setting each property to its new value.
+   *
+   * This is a no-op if there is no step to redo.
+   */
+  redo(): void {
+    if (this._redoStack.length === 0) {
+      return;
+    }
+    this._update(() => {
+      var step = this._redoStack.pop();
+      for (var i = 0, n = step.length; i < n; ++i) {
+        var change = step[i];
+        this._apply(change.owner, change.property, change.newValue);
+      }
+      this._undoStack.push(step);
+    });
+  }
+
+  /**
+   * Discard all of the recorded undo and redo steps.
+   */
+  clear(): void {
+    this._update(() => {
+      this._undoStack = [];
+      this._redoStack = [];
+    });
+  }
+
+  /**
+   * Handle the `propertyChanged` signal of an attached owner.
+   */
+  private _onPropertyChanged(args: IPropertyChangedArgs): void {
+    if (this._applying) {
+      return;
+    }
+    var property = args.property;
+    if (!isWritable(property)) {
+      return;
+    }
+    if (inheritedChanges.has(args)) {
+      return;
+    }
+    var owner = changedOwner();
+    if (this._consumeWrite(owner, property, args.newValue)) {
+      return;
+    }
+    var change: IPropertyValueChangedArgs = {
+      property: property,
+      owner: owner,
+      oldValue: args.oldValue,
+      newValue: args.newValue,
+    };
+    if (this._groupDepth > 0) {
+      this._pending.push(change);
+    } else {
+      this._pushStep([change]);
+    }
+  }
+
+  /**
+   * Write a value on behalf of an undo or redo.
+   *
+   * The write is remembered so that its notification is not recorded
+   * if it is deferred until after the undo or redo has finished.
+   */
+  private _apply(owner: IPropertyOwner, property: Property<any, any>, value: any): void {
+    this._writes.push({ owner: owner, property: property, value: value });
+    property.set(owner, value);
+  }
+
+  /**
+   * Remove a remembered write which matches a change notification.
+   *
+   * Returns `true` if a matching write was found, `false` otherwise.
+   */
+  private _consumeWrite(owner: IPropertyOwner, property: Property<any, any>, value: any): boolean {
+    var writes = this._writes;
+    var compareValues = internalsOf(property).compareValues;
+    for (var i = 0, n = writes.length; i < n; ++i) {
+      var write = writes[i];
+      if (write.owner === owner && write.property === property &&
+          compareValues(write.value, value)) {
+        writes.splice(i, 1);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Push a new undo step and discard the redo steps.
+   */
+  private _pushStep(step: IPropertyValueChangedArgs[]): void {
+    this._update(() => {
+      this._undoStack.push(step);
+      this._redoStack = [];
+      var excess = this._undoStack.length - this._maxDepth;
+      if (excess > 0) this._undoStack.splice(0, excess);
+    });
+  }
+
+  /**
+   * Run a callback which modifies the stacks.
+   *
+   * Changes made by the callback are not recorded, and the state
+   * changed signal is emitted if the availability changes.
+   *
+   * The remembered writes are only retained for batched owners, since
+   * the notifications of the other owners have already been handled.
+   */
+  private _update(callback: () => void): void {
+    var canUndo = this.canUndo;
+    var canRedo = this.canRedo;
+    this._applying = true;
+    try {
+      callback();
+    } finally {
+      this._applying = false;
+      this._writes = this._writes.filter(write => batchData.has(write.owner));
+    }
+    if (canUndo !== this.canUndo || canRedo !== this.canRedo) {
+      this.stateChanged.emit(void 0);
+    }
+  }
+
+  private _maxDepth: number;
+  private _groupDepth = 0;
+  private _applying = false;
+  private _pending: IPropertyValueChangedArgs[] = [];
+  private _undoStack: IPropertyValueChangedArgs[][] = [];
+  private _redoStack: IPropertyValueChangedArgs[][] = [];
+  private _writes: IHistoryWrite[] = [];
+}
+
+
+/**
+ * An object which describes a value written by an undo or redo.
+ */
+interface IHistoryWrite {
+  /**
+   * The owner of the written property.
+   */
+  owner: IPropertyOwner;
+
+  /**
+   * The property which was written.
+   */
+  property: Property<any, any>;
+
+  /**
+   * The value which was written.
+   */
+  value: any;
+}
+
+
+/**
+ * An enum of the kinds of change made to an [[ObservableList]].
+ */
+export
+enum ListChangeType {
+  /**
+   * An item was added to the list.
+   */
+  Add,
+
+  /**
+   * An item was removed from the list.
+   */
+  Remove,
+
+  /**
+   * An item in the list was replaced.
+   */
+  Replace,
+
+  /**
+   * Any number of items were removed and added.
+   */
+  Splice,
+}
+
+
+/**
+ * The arguments object emitted with an [[ObservableList]] change.
+ */
+export
+interface IListChangedArgs<T> {
+  /**
+   * The kind of change made to the list.
+   */
+  type: ListChangeType;
+
+  /**
+   * The index at which the change was made.
+   */
+  index: number;
+
+  /**
+   * The items removed from the list at the index.
+   */
+  removed: T[];
+
+  /**
+   * The items added to the list at the index.
+   */
+  added: T[];
+}
+
+
+/**
+ * A list which emits a signal when its items are changed.
+ *
+ * #### Notes
+ * An observable list can be used as the value of a property created
+ * with `observeItems`, in which case its changes are reported by the
+ * [[Property.itemsChanged]] signal.
+ */
+export
+class ObservableList<T> {
+  /**
+   * Construct a new observable list.
+   *
+   * @param items - The initial items for the list.
+   */
+  constructor(items?: T[]) {
+    this._items = items ? items.slice() : [];
+  }
+
+  /**
+   * A signal emitted when the items of the list are changed.
+   */
+  @defineSignal
+  changed: ISignal<IListChangedArgs<T>>;
+
+  /**
+   * Get the number of items in the list.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get length(): number {
+    return this._items.length;
+  }
+
+  /**
+   * Get the item at a specific index.
+   *
+   * @param index - The index of the item of interest.
+   *
+   * @returns The item at the index, or `undefined` if the index is
+   *   out of range.
+   */
+  get(index: number): T {
+    return this._items[index];
+  }
+
+  /**
+   * Replace the item at a specific index.
+   *
+   * @param index - The index of the item to replace.
+   *
+   * @param item - The new item for the index.
+   *
+   * @returns The item which was replaced.
+   *
+   * #### Notes
+   * This will throw an error if the index is out of range.
+   */
+  set(index: number, item: T): T {
+    this._checkIndex(index, this._items.length - 1);
+    var old = this._items[index];
+    if (old === item) {
+      return old;
+    }
+    this._items[index] = item;
+    this._emit(ListChangeType.Replace, index, [old], [item]);
+    return old;
+  }
+
+  /**
+   * Add an item to the end of the list.
+   *
+   * @param item - The item to add.
+   *
+   * @returns The index of the added item.
+   */
+  add(item: T): number {
+    var index = this._items.push(item) - 1;
+    this._emit(ListChangeType.Add, index, [], [item]);
+    return index;
+  }
+
+  /**
+   * Insert an item at a specific index.
+   *
+   * @param index - The index at which to insert the item.
+   *
+   * @param item - The item to insert.
+   *
+   * #### Notes
+   * This will throw an error if the index is out of range.
+   */
+  insert(index: number, item: T): void {
+    this._checkIndex(index, this._items.length);
+    this._items.splice(index, 0, item);
+    this._emit(ListChangeType.Add, index, [], [item]);
+  }
+
+  /**
+   * Remove the item at a specific index.
+   *
+   * @param index - The index of the item to remove.
+   *
+   * @returns The item which was removed.
+   *
+   * #### Notes
+   * This will throw an error if the index is out of range.
+   */
+  removeAt(index: number): T {
+    this._checkIndex(index, this._items.length - 1);
+    var item = this._items.splice(index, 1)[0];
+    this._emit(ListChangeType.Remove, index, [item], []);
+    return item;
+  }
+
+  /**
+   * Remove the first occurrence of an item from the list.
+   *
+   * @param item - The item to remove.
+   *
+   * @returns The index of the removed item, or `-1`.
+   */
+  remove(item: T): number {
+    var index = this._items.indexOf(item);
+    if (index !== -1) this.removeAt(index);
+    return index;
+  }
+
+  /**
+   * Remove and add items at a specific index.
+   *
+   * @param index - The index at which to start the change.
+   *
+   * @param count - The number of items to remove.
+   *
+   * @param items - The items to add at the index.
+   *
+   * @returns The items which were removed.
+   *
+   * #### Notes
+   * This will throw an error if the index is out of range.
+   *
+   * No signal is emitted if no items are removed or added.
+   */
+  splice(index: number, count: number, ...items: T[]): T[] {
+    this._checkIndex(index, this._items.length);
+    var removed = this._items.splice(index, count, ...items);
+    if (removed.length > 0 || items.length > 0) {
+      this._emit(ListChangeType.Splice, index, removed, items);
+    }
+    return removed;
+  }
+
+  /**
+   * Remove all items from the list.
+   *
+   * #### Notes
+   * No signal is emitted if the list is already empty.
+   */
+  clear(): void {
+    if (this._items.length > 0) {
+      this.splice(0, this._items.length);
+    }
+  }
+
+  /**
+   * Find the index of the first occurrence of an item.
+   *
+   * @param item - The item of interest.
+   *
+   * @returns The index of the item, or `-1`.
+   */
+  indexOf(item: T): number {
+    return this._items.indexOf(item);
+  }
+
+  /**
+   * Get a new array of the items in the list.
+   */
+  toArray(): T[] {
+    return this._items.slice();
+  }
+
+  /**
+   * Throw an error if an index is outside of `[0, max]`.
+   */
+  private _checkIndex(index: number, max: number): void {
+    if (index < 0 || index > max || Math.floor(index) !== index) {
+      throw new Error('Index out of range: ' + index);
+    }
+  }
+
+  /**
+   * Emit the changed signal with the given args.
+   */
+  private _emit(type: ListChangeType, index: number, removed: T[], added: T[]): void {
+    this.changed.emit({ type: type, index: index, removed: removed, added: added });
+  }
+
+  private _items: T[];
+}
+
+
+/**
+ * An enum of the kinds of change made to an [[ObservableMap]].
+ */
+export
+enum MapChangeType {
+  /**
+   * A new key was added to the map.
+   */
+  Add,
+
+  /**
+   * A key was removed from the map.
+   */
+  Remove,
+
+  /**
+   * The value of an existing key was replaced.
+   */
+  Replace,
+}
+
+
+/**
+ * The arguments object emitted with an [[ObservableMap]] change.
+ */
+export
+interface IMapChangedArgs<K, V> {
+  /**
+   * The kind of change made to the map.
+   */
+  type: MapChangeType;
+
+  /**
+   * The key which was changed.
+   */
+  key: K;
+
+  /**
+   * The old value of the key, or `undefined` for an added key.
+   */
+  oldValue: V;
+
+  /**
+   * The new value of the key, or `undefined` for a removed key.
+   */
+  newValue: V;
+}
+
+
+/**
+ * A map which emits a signal when its entries are changed.
+ *
+ * #### Notes
+ * An observable map can be used as the value of a property created
+ * with `observeItems`, in which case its changes are reported by the
+ * [[Property.itemsChanged]] signal.
+ */
+export
+class ObservableMap<K, V> {
+  /**
+   * Construct a new observable map.
+   *
+   * @param entries - The initial `[key, value]` entries for the map.
+   */
+  constructor(entries?: [K, V][]) {
+    if (entries) entries.forEach(entry => { this._map.set(entry[0], entry[1]); });
+  }
+
+  /**
+   * A signal emitted when the entries of the map are changed.
+   */
+  @defineSignal
+  changed: ISignal<IMapChangedArgs<K, V>>;
+
+  /**
+   * Get the number of entries in the map.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get size(): number {
+    return this._map.size;
+  }
+
+  /**
+   * Get the value for a specific key.
+   *
+   * @param key - The key of interest.
+   *
+   * @returns The value for the key, or `undefined`.
+   */
+  get(key: K): V {
+    return this._map.get(key);
+  }
+
+  /**
+   * Test whether the map contains a specific key.
+   *
+   * @param key - The key of interest.
+   *
+   * @returns `true` if the map contains the key, `false` otherwise.
+   */
+  has(key: K): boolean {
+    return this._map.has(key);
+  }
+
+  /**
+   * Set the value for a specific key.
+   *
+   * @param key - The key of interest.
+   *
+   * @param value - The new value for the key.
+   *
+   * #### Notes
+   * No signal is emitted if the key already has the given value.
+   */
+  set(key: K, value: V): void {
+    var map = this._map;
+    if (!map.has(key)) {
+      map.set(key, value);
+      this._emit(MapChangeType.Add, key, void 0, value);
+      return;
+    }
+    var old = map.get(key);
+    if (old === value) {
+      return;
+    }
+    map.set(key, value);
+    this._emit(MapChangeType.Replace, key, old, value);
+  }
+
+  /**
+   * Remove a specific key from the map.
+   *
+   * @param key - The key to remove.
+   *
+   * @returns `true` if the key was removed, `false` otherwise.
+   */
+  delete(key: K): boolean {
+    var map = this._map;
+    if (!map.has(key)) {
+      return false;
+    }
+    var old = map.get(key);
+    map.delete(key);
+    this._emit(MapChangeType.Remove, key, old, void 0);
+    return true;
+  }
+
+  /**
+   * Remove all entries from the map.
+   *
+   * #### Notes
+   * A separate signal is emitted for each removed key.
+   */
+  clear(): void {
+    this.keys().forEach(key => { this.delete(key); });
+  }
+
+  /**
+   * Get a new array of the keys in the map, in insertion order.
+   */
+  keys(): K[] {
+    var keys: K[] = [];
+    this._map.forEach((value, key) => { keys.push(key); });
+    return keys;
+  }
+
+  /**
+   * Get a new array of the values in the map, in insertion order.
+   */
+  values(): V[] {
+    var values: V[] = [];
+    this._map.forEach(value => { values.push(value); });
+    return values;
+  }
+
+  /**
+   * Emit the changed signal with the given args.
+   */
+  private _emit(type: MapChangeType, key: K, oldValue: V, newValue: V): void {
+    this.changed.emit({ type: type, key: key, oldValue: oldValue, newValue: newValue });
+  }
+
+  private _map = new Map<K, V>();
+}
+
+
+/**
+ * An object which describes a property write being intercepted.
+ */
+export
+interface IPropertyWrite {
+  /**
+   * The property being written.
+   */
+  property: Property<any, any>;
+
+  /**
+   * The property owner being written.
+   */
+  owner: IPropertyOwner;
+
+  /**
+   * The kind of write: either `'set'` or `'coerce'`.
+   *
+   * #### Notes
+   * Writes made by [[Property.set]], [[Property.trySet]] and
+   * [[Property.setLayerValue]] are of kind `'set'`.
+   */
+  kind: string;
+
+  /**
+   * The precedence layer being written.
+   *
+   * This is `null` for a `'coerce'` write.
+   */
+  layer: PropertyLayer;
+
+  /**
+   * The value being written.
+   *
+   * #### Notes
+   * For a `'set'` write, this is the supplied value before it is
+   * validated and coerced. For a `'coerce'` write, this is the value
+   * of the layer with the highest precedence, or the current value if
+   * no layer has a value, which will be coerced.
+   *
+   * An interceptor may modify this value before calling `next`.
+   */
+  value: any;
+}
+
+
+/**
+ * An object which intercepts property writes and notifications.
+ */
+export
+interface IPropertyInterceptor {
+  /**
+   * Intercept a property write.
+   *
+   * @param write - The object describing the write. Its `value` may
+   *   be modified before calling `next`.
+   *
+   * @param next - A function which continues the write by invoking
+   *   the next interceptor, and finally performing the write.
+   *
+   * #### Notes
+   * An interceptor cancels the write by not calling `next`. It may
+   * observe the result of the write after `next` returns. The `next`
+   * function must be called at most once.
+   */
+  intercept?: (write: IPropertyWrite, next: () => void) => void;
+
+  /**
+   * Observe a property change notification.
+   *
+   * @param owner - The property owner whose value changed.
+   *
+   * @param args - The change args for the notification.
+   *
+   * #### Notes
+   * This is invoked for each change, after the property's `changed`
+   * callback and before the `propertyChanged` signal is emitted. It
+   * is invoked immediately even when the signal is deferred by a
+   * batch.
+   */
+  notify?: (owner: IPropertyOwner, args: IPropertyChangedArgs) => void;
+}
+
+
+/**
+ * Add a global interceptor for property writes and notifications.
+ *
+ * @param interceptor - The interceptor to add.
+ *
+ * @returns A disposable which removes the interceptor.
+ *
+ * #### Notes
+ * Interceptors apply to all properties. They are invoked in the order
+ * in which they were added, so the first interceptor added is the
+ * outermost interceptor for a write.
+ */
+export
+function addPropertyInterceptor(interceptor: IPropertyInterceptor): IDisposable {
+  interceptors = interceptors.concat([interceptor]);
+  return new DisposableDelegate(() => {
+    interceptors = interceptors.filter(other => other !== interceptor);
+  });
+}
+
+
+/**
+ * An object which records a property change made while tracing.
+ */
+export
+interface IPropertyTraceEntry {
+  /**
+   * The property which changed.
+   */
+  property: Property<any, any>;
+
+  /**
+   * The name of the property which changed.
+   */
+  name: string;
+
+  /**
+   * The property owner whose value changed.
+   */
+  owner: IPropertyOwner;
+
+  /**
+   * The old value of the property.
+   */
+  oldValue: any;
+
+  /**
+   * The new value of the property.
+   */
+  newValue: any;
+
+  /**
+   * The time of the change, in milliseconds since the epoch.
+   */
+  timestamp: number;
+
+  /**
+   * The stack trace of the change.
+   *
+   * This is an empty string unless stack capture is enabled.
+   */
+  stack: string;
+
+  /**
+   * The nesting depth of the change.
+   *
+   * #### Notes
+   * A change made directly by user code has a depth of `0`. A change
+   * made by a `changed` callback or a change signal handler has a
+   * depth one greater than the change which invoked the handler.
+   */
+  depth: number;
+}
+
+
+/**
+ * The options object used to start a property trace.
+ */
+export
+interface IPropertyTraceOptions {
+  /**
+   * The maximum number of entries to keep in the trace buffer.
+   *
+   * When the buffer is full, the oldest entry is discarded.
+   *
+   * The default is `1000`.
+   */
+  capacity?: number;
+
+  /**
+   * Whether to capture a stack trace for each change.
+   *
+   * #### Notes
+   * Capturing stack traces is expensive and should only be enabled
+   * while diagnosing a problem.
+   *
+   * The default is `false`.
+   */
+  captureStack?: boolean;
+}
+
+
+/**
+ * Start recording property changes into the trace buffer.
+ *
+ * @param options - The options for the trace.
+ *
+ * #### Notes
+ * Starting a trace clears any previously recorded entries.
+ *
+ * Tracing records the changes of all properties. When tracing is not
+ * enabled, the overhead of this feature is a single flag check.
+ */
+export
+function startPropertyTrace(options: IPropertyTraceOptions = {}): void {
+  var capacity = options.capacity === void 0 ? 1000 : options.capacity;
+  if (!(capacity >= 1)) {
+    throw new Error('Trace capacity must be at least 1.');
+  }
+  traceBuffer = [];
+  traceIndex = 0;
+  traceCapacity = capacity;
+  traceStack = !!options.captureStack;
+  traceEnabled = true;
+}
+
+
+/**
+ * Stop recording property changes.
+ *
+ * #### Notes
+ * The recorded entries are retained until the next trace is started
+ * or [[clearPropertyTrace]] is called.
+ */
+export
+function stopPropertyTrace(): void {
+  traceEnabled = false;
+}
+
+
+/**
+ * Clear the entries recorded in the trace buffer.
+ */
+export
+function clearPropertyTrace(): void {
+  traceBuffer = [];
+  traceIndex = 0;
+}
+
+
+/**
+ * Get the entries recorded in the trace buffer.
+ *
+ * @param filter - An optional predicate which selects the entries
+ *   of interest.
+ *
+ * @returns A new array of the matching entries, oldest first.
+ */
+export
+function getPropertyTrace(filter?: (entry: IPropertyTraceEntry) => boolean): IPropertyTraceEntry[] {
+  var head = traceBuffer.slice(traceIndex);
+  var tail = traceBuffer.slice(0, traceIndex);
+  var entries = head.concat(tail);
+  return filter ? entries.filter(filter) : entries;
+}
+
+
+/**
+ * Format the entries recorded in the trace buffer as text.
+ *
+ * @param filter - An optional predicate which selects the entries
+ *   of interest.
+ *
+ * @returns A string with one line per entry, oldest first. Nested
+ *   changes are indented by their depth.
+ */
+export
+function dumpPropertyTrace(filter?: (entry: IPropertyTraceEntry) => boolean): string {
+  return getPropertyTrace(filter).map(entry => {
+    var indent = new Array(entry.depth + 1).join('  ');
+    var time = new Date(entry.timestamp).toISOString();
+    var name = entry.name || '<anonymous>';
+    var line = time + ' ' + indent + name + ': ' +
+      String(entry.oldValue) + ' -> ' + String(entry.newValue);
+    return entry.stack ? line + '\n' + entry.stack : line;
+  }).join('\n');
+}
+
+
+/**
+ * Set the maximum depth of nested property change notifications.
+ *
+ * @param depth - The maximum depth. This must be at least `1`.
+ *
+ * @returns The previous maximum depth.
+ *
+ * #### Notes
+ * A change handler which changes another property nests the change
+ * notifications. A handler which changes the same property queues
+ * another notification for that property. If either the nesting depth
+ * or the number of queued notifications for a property exceeds the
+ * maximum, an error is thrown to break what is most likely an endless
+ * change loop.
+ *
+ * The default maximum depth is `100`.
+ */
+export
+function setMaxChangeDepth(depth: number): number {
+  if (!(depth >= 1)) {
+    throw new Error('Maximum change depth must be at least 1.');
+  }
+  var old = maxChangeDepth;
+  maxChangeDepth = depth;
+  return old;
+}
+
+
+/**
+ * Create a decorator which declares a property on a class.
+ *
+ * @param options - The options for initializing the property. The
+ *   `name` defaults to the decorated member name and the `ownerType`
+ *   defaults to the decorated class.
+ *
+ * @returns A property decorator for use on a class member.
+ *
+ * #### Notes
+ * The decorator creates the [[Property]] descriptor and installs a
+ * getter/setter pair on the class prototype which delegates to it.
+ * The descriptor is stored as a static member of the class, named by
+ * appending the suffix `'Property'` to the member name, so it remains
+ * available for use by meta tools and as an attached property.
+ *
+ * Declare the static member on the class to make it visible to the
+ * type system. It must not be given an initializer.
+ *
+ * #### Example
+ * ```typescript
+ * class MyClass {
+ *
+ *   static myValueProperty: Property<MyClass, number>;
+ *
+ *   @defineSignal
+ *   propertyChanged: ISignal<IPropertyChangedArgs>;
+ *
+ *   @property<MyClass, number>({
+ *     value: 0,
+ *     coerce: (owner, value) => Math.max(0, value),
+ *   })
+ *   myValue: number;
+ * }
+ * ```
+ */
+export
+function property<T extends IPropertyOwner, U>(options: IPropertyOptions<T, U> = {}): (proto: any, name: string) => void {
+  return (proto: any, name: string) => {
+    var ctor = proto.constructor;
+    var descriptor = new Property<T, U>({
+      name: options.name || name,
+      ownerType: options.ownerType || ctor,
+      description: options.description,
+      inherits: options.inherits,
+      persist: options.persist,
+      serialize: options.serialize,
+      deserialize: options.deserialize,
+      value: options.value,
+      create: options.create,
+      validate: options.validate,
+      coerce: options.coerce,
+      compare: options.compare,
+      changed: options.changed,
+      coerceWith: options.coerceWith,
+      observeItems: options.observeItems,
+    });
+    Object.defineProperty(ctor, name + 'Property', {
+      value: descriptor,
+      writable: true,
+      enumerable: false,
+      configurable: true,
+    });
+    Object.defineProperty(proto, name, {
+      get: function() { return descriptor.get(this); },
+      set: function(value: U) { descriptor.set(this, value); },
+      enumerable: true,
+      configurable: true,
+    });
+  };
+}
+
+
+/**
+ * Get the property change signal for a property owner.
+ *
+ * @param owner - The property owner of interest.
+ *
+ * @returns The `propertyChanged` signal of the owner, if it has one.
+ *   Otherwise, a change signal managed by the library for the owner.
+ *
+ * #### Notes
+ * This allows any object to be used as a property owner, even if it
+ * does not define a `propertyChanged` signal. The managed signal is
+ * held weakly and is emitted exactly as the owner's signal would be.
+ *
+ * When the managed signal is emitted, the `emitter()` function from
+ * `phosphor-signaling` returns an internal object rather than the
+ * owner. The args of the signal are the same in both cases.
+ */
+export
+function getPropertyChangedSignal(owner: IPropertyOwner): ISignal<IPropertyChangedArgs> {
+  if (owner.propertyChanged) {
+    return owner.propertyChanged;
+  }
+  var host = signalHosts.get(owner);
+  if (host === void 0) {
+    host = new ChangedSignalHost(owner);
+    signalHosts.set(owner, host);
+  }
+  return host.propertyChanged;
+}
+
+
+/**
+ * Clear the stored property data for the given property owner.
+ *
+ * @param owner - The property owner of interest.
+ *
+ * @param notify - Whether to emit change notifications for the
+ *   properties whose values change. The default is `false`.
+ *
+ * #### Notes
+ * This will clear all property values for the owner. By default it
+ * will **not** emit any property change notifications. Any in-flight
+ * transitions for the owner are stopped.
+ *
+ * If `notify` is `true`, each property which had a stored value is
+ * restored to its inherited or default value, and the `changed`
+ * callback and `propertyChanged` signal are run for each property
+ * whose value changes.
+ */
+export
+function clearPropertyData(owner: IPropertyOwner, notify = false): void {
+  var hash = ownerData.get(owner);
+  var table = ownerProperties.get(owner);
+  var running = transitions.get(owner);
+  if (running !== void 0) {
+    transitions.delete(owner);
+    for (var key in running) {
+      running[key].halt();
+    }
+  }
+  ownerData.delete(owner);
+  ownerProperties.delete(owner);
+  layerData.delete(owner);
+  var observers = itemObservers.get(owner);
+  if (observers !== void 0) {
+    for (var key in observers) {
+      observeItems(observers[key].property, owner, null);
+    }
+  }
+  if (!notify || hash === void 0) {
+    return;
+  }
+  for (var pid in hash) {
+    var property = table[pid];
+    internalsOf(property).maybeNotify(owner, hash[pid], property.get(owner));
+  }
+}
+
+
+/**
+ * An object which describes a stored property value for an owner.
+ */
+export
+interface IPropertyEntry {
+  /**
+   * The property descriptor for the entry.
+   */
+  property: Property<any, any>;
+
+  /**
+   * The current value of the property for the owner.
+   */
+  value: any;
+}
+
+
+/**
+ * Get the stored property entries for the given property owner.
+ *
+ * @param owner - The property owner of interest.
+ *
+ * @returns A new array of the properties which have a value set or
+ *   materialized for the owner, along with their current values.
+ *
+ * #### Notes
+ * The entries are ordered by when the value was first stored for
+ * the owner.
+ *
+ * Inherited values and the cached values of computed properties are
+ * not included, since they are not stored for the owner.
+ *
+ * This does not materialize any default values.
+ */
+export
+function getPropertyEntries(owner: IPropertyOwner): IPropertyEntry[] {
+  var result: IPropertyEntry[] = [];
+  var hash = ownerData.get(owner);
+  if (hash === void 0) {
+    return result;
+  }
+  var table = ownerProperties.get(owner);
+  for (var pid in hash) {
+    result.push({ property: table[pid], value: hash[pid] });
+  }
+  return result;
+}
+
+
+/**
+ * An object which resolves the parent chain for inherited properties.
+ */
+export
+interface IInheritanceResolver {
+  /**
+   * Get the parent of a property owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * @returns The parent of the owner, or `null` if it has no parent.
+   */
+  parent(owner: IPropertyOwner): IPropertyOwner;
+
+  /**
+   * Get the children of a property owner.
+   *
+   * @param owner - The property owner of interest.
+   *
+   * @returns The array of children of the owner. This may be empty.
+   *
+   * #### Notes
+   * This is used to notify descendants when an inherited value changes.
+   */
+  children(owner: IPropertyOwner): IPropertyOwner[];
+}
+
+
+/**
+ * Set the resolver used to find the parent chain of property owners.
+ *
+ * @param resolver - The resolver to use for inherited properties, or
+ *   `null` to restore the default resolver.
+ *
+ * @returns The previous inheritance resolver.
+ *
+ * #### Notes
+ * The default resolver treats every owner as a root with no parent
+ * and no children, which means inherited properties behave exactly
+ * like normal properties.
+ */
+export
+function setInheritanceResolver(resolver: IInheritanceResolver): IInheritanceResolver {
+  var old = inheritanceResolver;
+  inheritanceResolver = resolver || defaultResolver;
+  return old;
+}
+
+
+/**
+ * Batch the property change notifications for a property owner.
+ *
+ * @param owner - The property owner of interest.
+ *
+ * @param callback - The function to invoke while the changes are
+ *   being batched.
+ *
+ * #### Notes
+ * While the callback is running, the `propertyChanged` signal of the
+ * owner will not be emitted. When the outermost batch for the owner
+ * completes, a single notification is emitted for each property which
+ * was changed, in the order the properties were first changed.
+ *
+ * Multiple changes to the same property are coalesced into a single
+ * notification which carries the original `oldValue` and the final
+ * `newValue`. If those values compare equal using the property's
+ * `compare` function, no notification is emitted for that property.
+ *
+ * Batches may be nested. Notifications are only emitted when the
+ * outermost batch completes, even if the callback throws an error.
+ *
+ * The `changed` callback of a property is **not** deferred. It is
+ * invoked immediately for each individual change.
+ */
+export
+function batchPropertyChanges(owner: IPropertyOwner, callback: () => void): void {
+  var batch = batchData.get(owner);
+  if (batch === void 0) {
+    batch = { depth: 0, changes: [] };
+    batchData.set(owner, batch);
+  }
+  batch.depth++;
+  try {
+    callback();
+  } finally {
+    if (--batch.depth === 0) {
+      batchData.delete(owner);
+      flushBatch(owner, batch);
+    }
+  }
+}
+
+
+/**
+ * Find a registered property by owner type and name.
+ *
+ * @param ownerType - The class type of interest.
+ *
+ * @param name - The name of the property of interest.
+ *
+ * @returns The property registered with the given name for the owner
+ *   type or its nearest base class, or `null` if no such property is
+ *   registered.
+ *
+ * #### Notes
+ * A property is registered when it is created with both the `name`
+ * and `ownerType` options.
+ */
+export
+function findProperty(ownerType: Function, name: string): Property<any, any> {
+  for (var type = ownerType; type; type = baseType(type)) {
+    var hash = registry.get(type);
+    if (hash !== void 0 && name in hash) {
+      return hash[name];
+    }
+  }
+  return null;
+}
+
+
+/**
+ * Get the registered properties for an owner type.
+ *
+ * @param ownerType - The class type of interest.
+ *
+ * @returns A new array of the properties registered for the owner type
+ *   and its base classes, ordered from the most basic class to the most
+ *   derived. A property which is shadowed by a property of the same name
+ *   on a derived class is not included.
+ */
+export
+function getRegisteredProperties(ownerType: Function): Property<any, any>[] {
+  var types: Function[] = [];
+  for (var type = ownerType; type; type = baseType(type)) {
+    types.unshift(type);
+  }
+  var result: Property<any, any>[] = [];
+  var names: { [name: string]: number } = Object.create(null);
+  for (var i = 0, n = types.length; i < n; ++i) {
+    var hash = registry.get(types[i]);
+    if (hash === void 0) {
+      continue;
+    }
+    for (var name in hash) {
+      if (name in names) {
+        result[names[name]] = hash[name];
+      } else {
+        names[name] = result.push(hash[name]) - 1;
+      }
+    }
+  }
+  return result;
+}
+
+
+/**
+ * A comparator which tests two objects for shallow equality.
+ *
+ * @param first - The first value to compare.
+ *
+ * @param second - The second value to compare.
+ *
+ * @returns `true` if the values are identical, or if both are objects
+ *   with the same prototype, the same own enumerable keys, and equal
+ *   values for each key.
+ *
+ * #### Notes
+ * This can be used as the `compare` option of a property.
+ *
+ * The values of the keys are compared with the `SameValueZero`
+ * algorithm, so `NaN` equals `NaN` and `-0` equals `0`.
+ *
+ * Dates are equal if they represent the same time, and regular
+ * expressions are equal if they have the same source and flags. Maps
+ * are equal if they have the same keys and identical values for each
+ * key, and sets are equal if they have the same elements. Weak maps
+ * and weak sets are only equal to themselves.
+ */
+export
+function shallowEqual(first: any, second: any): boolean {
+  if (sameValueZero(first, second)) {
+    return true;
+  }
+  if (!isObject(first) || !isObject(second)) {
+    return false;
+  }
+  if (Object.getPrototypeOf(first) !== Object.getPrototypeOf(second)) {
+    return false;
+  }
+  if (first instanceof Date) {
+    return dateEqual(first, second);
+  }
+  if (first instanceof RegExp) {
+    return String(first) === String(second);
+  }
+  if (first instanceof WeakMap || first instanceof WeakSet) {
+    return false;
+  }
+  if (first instanceof Map) {
+    return mapEqual(first, second, sameValueZero);
+  }
+  if (first instanceof Set) {
+    return setEqual(first, second);
+  }
+  var keys = Object.keys(first);
+  if (keys.length !== Object.keys(second).length) {
+    return false;
+  }
+  for (var i = 0, n = keys.length; i < n; ++i) {
+    var key = keys[i];
+    if (!hasOwn(second, key) || !sameValueZero(first[key], second[key])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+
+/**
+ * A comparator which tests two arrays for element equality.
+ *
+ * @param first - The first array to compare.
+ *
+ * @param second - The second array to compare.
+ *
+ * @returns `true` if the arrays are identical, or if both have the
+ *   same length and equal elements at each index.
+ *
+ * #### Notes
+ * This can be used as the `compare` option of a property.
+ *
+ * The elements are compared with the `SameValueZero` algorithm, so
+ * `NaN` equals `NaN` and `-0` equals `0`. A hole in a sparse array
+ * is treated as an `undefined` element.
+ */
+export
+function arrayEqual(first: any[], second: any[]): boolean {
+  if (first === second) {
+    return true;
+  }
+  if (!Array.isArray(first) || !Array.isArray(second)) {
+    return false;
+  }
+  if (first.length !== second.length) {
+    return false;
+  }
+  for (var i = 0, n = first.length; i < n; ++i) {
+    if (!sameValueZero(first[i], second[i])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+
+/**
+ * A comparator which tests two values for deep structural equality.
+ *
+ * @param first - The first value to compare.
+ *
+ * @param second - The second value to compare.
+ *
+ * @returns `true` if the values are structurally equal.
+ *
+ * #### Notes
+ * This can be used as the `compare` option of a property.
+ *
+ * Primitives are compared with the `SameValueZero` algorithm. Arrays
+ * are equal if they have the same length and equal elements, with a
+ * hole in a sparse array treated as an `undefined` element. Dates are
+ * equal if they represent the same time, and regular expressions are
+ * equal if they have the same source and flags. Maps are equal if they
+ * have the same keys and equal values for each key, and sets are equal
+ * if they have the same elements. Map keys and set elements are matched
+ * by identity. Weak maps and weak sets are only equal to themselves.
+ * Other objects are equal if they have the same prototype, the same
+ * own enumerable keys, and equal values for each key.
+ *
+ * Cyclic structures are supported. Two cyclic values are equal only
+ * if each of their cycles refers back to the same relative position.
+ */
+export
+function deepEqual(first: any, second: any): boolean {
+  return deepEqualImpl(first, second, [], []);
+}
+
+
+/**
+ * Create a comparator which tests two numbers for approximate equality.
+ *
+ * @param epsilon - The maximum difference between equal numbers.
+ *
+ * @returns A comparator which returns `true` if the numbers differ by
+ *   no more than `epsilon`.
+ *
+ * #### Notes
+ * The comparator can be used as the `compare` option of a property.
+ *
+ * `NaN` is equal to `NaN`, and infinities are only equal to an
+ * infinity of the same sign.
+ */
+export
+function epsilonEqual(epsilon: number): (first: number, second: number) => boolean {
+  if (!(epsilon >= 0)) {
+    throw new Error('Epsilon must be a non-negative number.');
+  }
+  return (first: number, second: number) => {
+    return sameValueZero(first, second) || Math.abs(first - second) <= epsilon;
+  };
+}
+
+
+/**
+ * A comparator which tests two dates for equality.
+ *
+ * @param first - The first date to compare.
+ *
+ * @param second - The second date to compare.
+ *
+ * @returns `true` if the values are identical, or if both are dates
+ *   which represent the same time.
+ *
+ * #### Notes
+ * This can be used as the `compare` option of a property.
+ *
+ * Two invalid dates are considered equal.
+ */
+export
+function dateEqual(first: Date, second: Date): boolean {
+  if (first === second) {
+    return true;
+  }
+  if (!(first instanceof Date) || !(second instanceof Date)) {
+    return false;
+  }
+  return sameValueZero(first.getTime(), second.getTime());
+}
+
+
+/**
+ * An enum of the supported property binding modes.
+ */
+export
+enum BindingMode {
+  /**
+   * Changes to the source value are propagated to the target.
+   */
+  OneWay,
+
+  /**
+   * Changes are propagated from the source to the target and from
+   * the target back to the source.
+   */
+  TwoWay,
+
+  /**
+   * The source value is copied to the target once, when the binding
+   * is created.
+   */
+  OneTime,
+}
+
+
+/**
+ * The options object used to create a property binding.
+ */
+export
+interface IBindingOptions<U, V> {
+  /**
+   * The mode of the binding.
+   *
+   * The default is `BindingMode.OneWay`.
+   */
+  mode?: BindingMode;
+
+  /**
+   * A function which converts a source value to a target value.
+   *
+   * If this is not provided, the value is used unmodified.
+   */
+  convert?: (value: U) => V;
+
+  /**
+   * A function which converts a target value to a source value.
+   *
+   * This is only used for `BindingMode.TwoWay` bindings. If this is
+   * not provided, the value is used unmodified.
+   */
+  convertBack?: (value: V) => U;
+}
+
+
+/**
+ * Bind a property of a target owner to a property of a source owner.
+ *
+ * @param source - The owner of the source property.
+ *
+ * @param sourceProperty - The property to use as the binding source.
+ *
+ * @param target - The owner of the target property.
+ *
+ * @param targetProperty - The property to use as the binding target.
+ *
+ * @param options - The options for the binding.
+ *
+ * @returns A disposable which disconnects the binding.
+ *
+ * #### Notes
+ * The target is set to the converted source value when the binding is
+ * created. Values are written using [[Property.set]], so the `coerce`
+ * and `compare` functions of the receiving property are respected.
+ *
+ * A change which is being propagated by a two-way binding will not be
+ * propagated back to its origin, which prevents update loops.
+ *
+ * A one-time binding is disposed as soon as it is created.
+ */
+export
+function bind<S extends IPropertyOwner, U, T extends IPropertyOwner, V>(
+  source: S, sourceProperty: Property<S, U>,
+  target: T, targetProperty: Property<T, V>,
+  options: IBindingOptions<U, V> = {}): IDisposable {
+  return new PropertyBinding(source, sourceProperty, target, targetProperty, options);
+}
+
+
+/**
+ * The result object produced by a property change iterator.
+ */
+export
+interface IPropertyChangeResult<U> {
+  /**
+   * Whether the iterator has finished.
+   */
+  done: boolean;
+
+  /**
+   * The new value of the property, or `undefined` when finished.
+   */
+  value: U;
+}
+
+
+/**
+ * An async iterator of the changed values of a property.
+ *
+ * #### Notes
+ * When the runtime supports `Symbol.asyncIterator`, the iterator is
+ * also an async iterable which returns itself, so it can be consumed
+ * with a `for await` loop.
+ */
+export
+interface IPropertyChangeIterator<U> {
+  /**
+   * Get a promise which resolves with the next changed value.
+   *
+   * #### Notes
+   * Changes which occur before `next` is called are buffered, so no
+   * change is missed.
+   */
+  next(): PromiseLike<IPropertyChangeResult<U>>;
+
+  /**
+   * Stop the iteration and disconnect from the owner.
+   *
+   * #### Notes
+   * Any pending `next` promises resolve with a finished result.
+   */
+  return(): PromiseLike<IPropertyChangeResult<U>>;
+}
+
+
+/**
+ * Create an async iterator of the changed values of a property.
+ *
+ * @param owner - The property owner of interest.
+ *
+ * @param property - The property of interest.
+ *
+ * @returns An async iterator which produces the new value of each
+ *   change of the property for the owner.
+ *
+ * #### Notes
+ * The iterator is connected to the owner's `propertyChanged` signal
+ * until its `return` method is called. A `for await` loop calls this
+ * method automatically when the loop exits.
+ *
+ * This requires a runtime which provides a global `Promise`.
+ */
+export
+function propertyChanges<T extends IPropertyOwner, U>(owner: T, property: Property<T, U>): IPropertyChangeIterator<U> {
+  return new PropertyChangeIterator<U>(owner, property);
+}
+
+
+/**
+ * A subscription to a property observable.
+ */
+export
+interface IPropertySubscription {
+  /**
+   * Whether the subscription has been closed.
+   */
+  closed: boolean;
+
+  /**
+   * Close the subscription and disconnect from the owner.
+   */
+  unsubscribe(): void;
+}
+
+
+/**
+ * A minimal observable of the values of a property.
+ */
+export
+interface IPropertyObservable<U> {
+  /**
+   * Subscribe to the values of the property.
+   *
+   * @param callback - The callback to invoke with each value. It is
+   *   invoked immediately with the current value, and then with the
+   *   new value of each change.
+   *
+   * @returns A subscription which can be used to stop the callbacks.
+   */
+  subscribe(callback: (value: U) => void): IPropertySubscription;
+}
+
+
+/**
+ * Create an observable of the values of a property.
+ *
+ * @param owner - The property owner of interest.
+ *
+ * @param property - The property of interest.
+ *
+ * @returns An observable which emits the current value of the property
+ *   for the owner on subscription, and then each new value.
+ *
+ * #### Notes
+ * Each subscription connects to the owner's `propertyChanged` signal
+ * until it is unsubscribed.
+ */
+export
+function observeProperty<T extends IPropertyOwner, U>(owner: T, property: Property<T, U>): IPropertyObservable<U> {
+  return {
+    subscribe: (callback: (value: U) => void) => {
+      return new PropertySubscription<U>(owner, property, callback);
+    },
+  };
+}
+
+
+/**
+ * A typedef for an easing function.
+ *
+ * An easing function maps the linear progress of a transition, in the
+ * range `[0, 1]`, to the eased progress. It should map `0` to `0` and
+ * `1` to `1`.
+ */
+export
+type EasingFunction = (t: number) => number;
+
+
+/**
+ * A typedef for an interpolator function.
+ *
+ * An interpolator computes the value between `from` and `to` at the
+ * eased progress `t`, where `t` is `0` at the start of a transition
+ * and `1` at the end.
+ */
+export
+type Interpolator<U> = (from: U, to: U, t: number) => U;
+
+
+/**
+ * An easing function with a constant rate.
+ */
+export
+function easeLinear(t: number): number {
+  return t;
+}
+
+
+/**
+ * A cubic easing function which starts slowly.
+ */
+export
+function easeIn(t: number): number {
+  return t * t * t;
+}
+
+
+/**
+ * A cubic easing function which ends slowly.
+ */
+export
+function easeOut(t: number): number {
+  var u = 1 - t;
+  return 1 - u * u * u;
+}
+
+
+/**
+ * A cubic easing function which starts and ends slowly.
+ */
+export
+function easeInOut(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - 4 * Math.pow(1 - t, 3);
+}
+
+
+/**
+ * An interpolator for numbers.
+ */
+export
+function interpolateNumber(from: number, to: number, t: number): number {
+  return from + (to - from) * t;
+}
+
+
+/**
+ * An interpolator for hex color strings.
+ *
+ * #### Notes
+ * The colors must be in `#rgb` or `#rrggbb` format. The result is in
+ * `#rrggbb` format.
+ */
+export
+function interpolateColor(from: string, to: string, t: number): string {
+  var a = parseHexColor(from);
+  var b = parseHexColor(to);
+  if (a === null || b === null) {
+    throw new Error('Invalid hex color.');
+  }
+  var result = '#';
+  for (var i = 0; i < 3; ++i) {
+    var c = Math.round(interpolateNumber(a[i], b[i], t));
+    c = Math.max(0, Math.min(255, c));
+    result += (c < 16 ? '0' : '') + c.toString(16);
+  }
+  return result;
+}
+
+
+/**
+ * Register an interpolator for a type of value.
+ *
+ * @param test - A function which returns `true` if a value can be
+ *   interpolated by the interpolator.
+ *
+ * @param interpolator - The interpolator for matching values.
+ *
+ * @returns A disposable which removes the interpolator.
+ *
+ * #### Notes
+ * A transition which is not given an interpolator uses the most
+ * recently registered interpolator whose test accepts both the start
+ * and target values. Interpolators for numbers and hex color strings
+ * are registered by default.
+ */
+export
+function registerInterpolator<U>(test: (value: any) => boolean, interpolator: Interpolator<U>): IDisposable {
+  var entry: IInterpolatorEntry = { test: test, interpolator: interpolator };
+  interpolatorEntries = [entry].concat(interpolatorEntries);
+  return new DisposableDelegate(() => {
+    interpolatorEntries = interpolatorEntries.filter(other => other !== entry);
+  });
+}
+
+
+/**
+ * An object which provides the time and frame scheduling for transitions.
+ */
+export
+interface IAnimationClock {
+  /**
+   * Get the current time in milliseconds.
+   */
+  now(): number;
+
+  /**
+   * Schedule a callback to run on the next animation frame.
+   *
+   * @param callback - The callback to run.
+   *
+   * @returns A disposable which cancels the callback.
+   */
+  schedule(callback: () => void): IDisposable;
+}
+
+
+/**
+ * Set the clock used to drive property transitions.
+ *
+ * @param clock - The clock to use, or `null` for the default clock.
+ *
+ * @returns The previous clock.
+ *
+ * #### Notes
+ * The default clock uses `Date.now` for the time, and schedules the
+ * frames with `requestAnimationFrame` if it is available, or with
+ * `setTimeout` otherwise.
+ *
+ * A manual clock can be installed to drive transitions deterministically
+ * in tests. The clock is read when a transition starts, so transitions
+ * already running keep the clock they started with.
+ */
+export
+function setAnimationClock(clock: IAnimationClock): IAnimationClock {
+  var old = animationClock;
+  animationClock = clock || defaultClock;
+  return old;
+}
+
+
+/**
+ * The options object used to start a property transition.
+ */
+export
+interface ITransitionOptions<U> {
+  /**
+   * The duration of the transition in milliseconds.
+   */
+  duration: number;
+
+  /**
+   * The easing function for the transition.
+   *
+   * The default is [[easeLinear]].
+   */
+  easing?: EasingFunction;
+
+  /**
+   * The interpolator for the transition.
+   *
+   * The default is the registered interpolator for the values. See
+   * [[registerInterpolator]].
+   */
+  interpolator?: Interpolator<U>;
+}
+
+
+/**
+ * Transition a property from its current value to a target value.
+ *
+ * @param owner - The property owner of interest.
+ *
+ * @param property - The property to transition.
+ *
+ * @param target - The target value for the property.
+ *
+ * @param options - The options for the transition.
+ *
+ * @returns A disposable which cancels the transition.
+ *
+ * #### Notes
+ * The intermediate values are written to the `Animation` layer on
+ * each frame, so they are validated and coerced, and the usual change
+ * notifications are emitted. When the transition completes, the target
+ * value is written with [[Property.set]] and the `Animation` layer is
+ * cleared.
+ *
+ * Writing a `Local` value for the property, resetting it, or starting
+ * another transition for it cancels an in-flight transition. Disposing
+ * of the transition also cancels it and clears the `Animation` layer,
+ * which reverts the property to its underlying value.
+ *
+ * If the target value is rejected by the `validate` function, this
+ * will throw a [[PropertyValidationError]] without starting the
+ * transition. If a frame throws an error, the transition is cancelled
+ * before the error is propagated.
+ *
+ * Computed and read-only properties cannot be transitioned.
+ */
+export
+function transitionProperty<T extends IPropertyOwner, U>(owner: T, property: Property<T, U>, target: U, options: ITransitionOptions<U>): IDisposable {
+  if (!isWritable(property)) {
+    throw new Error('Cannot transition property \'' + property.name + '\'.');
+  }
+  var error = internalsOf(property).validateValue(owner, target);
+  if (error) {
+    throw error;
+  }
+  var from = property.get(owner);
+  var interpolator = options.interpolator || findInterpolator(from, target);
+  if (!interpolator) {
+    throw new Error('No interpolator for property \'' + property.name + '\'.');
+  }
+  stopTransition(owner, property);
+  var transition = new PropertyTransition(owner, property, from, target, {
+    duration: options.duration,
+    easing: options.easing || easeLinear,
+    interpolator: interpolator,
+  });
+  var hash = transitions.get(owner);
+  if (hash === void 0) {
+    hash = Object.create(null);
+    transitions.set(owner, hash);
+  }
+  hash[internalsOf(property).pid] = transition;
+  transition.start(animationClock);
+  return transition;
+}
+
+
+/**
+ * A typedef for a JSON-serializable snapshot of property values.
+ *
+ * The snapshot maps property name to serialized property value.
+ */
+export
+type PropertySnapshot = { [name: string]: any };
+
+
+/**
+ * Create a snapshot of the property values for an owner.
+ *
+ * @param owner - The property owner of interest.
+ *
+ * @param properties - The properties to include in the snapshot. The
+ *   default is the registered properties for the owner's constructor.
+ *
+ * @returns A JSON-serializable snapshot of the property values.
+ *
+ * #### Notes
+ * Only the properties which have a `Local` layer value for the owner
+ * are included, and the value is recorded before coercion. Properties
+ * created with `persist: false` are skipped, as are computed and
+ * read-only properties, since they cannot be restored.
+ *
+ * Each value is passed through the property's `serialize` function,
+ * if one was provided.
+ *
+ * This will throw an error if an included property does not have a
+ * name, or if two properties have the same name.
+ */
+export
+function snapshotProperties(owner: IPropertyOwner, properties?: Property<any, any>[]): PropertySnapshot {
+  properties = properties || getRegisteredProperties(owner.constructor);
+  var snapshot: PropertySnapshot = {};
+  var names: { [name: string]: boolean } = Object.create(null);
+  for (var i = 0, n = properties.length; i < n; ++i) {
+    var property = properties[i];
+    var internals = internalsOf(property);
+    if (!internals.persist || !isWritable(property)) {
+      continue;
+    }
+    if (!property.name) {
+      throw new Error('Cannot snapshot an unnamed property.');
+    }
+    if (property.name in names) {
+      throw new Error('Duplicate property name: ' + property.name);
+    }
+    names[property.name] = true;
+    if (!property.hasLayerValue(owner, PropertyLayer.Local)) {
+      continue;
+    }
+    var value = property.getLayerValue(owner, PropertyLayer.Local);
+    var serialize = internals.serialize;
+    snapshot[property.name] = serialize ? serialize(value) : value;
+  }
+  return snapshot;
+}
+
+
+/**
+ * Restore the property values for an owner from a snapshot.
+ *
+ * @param owner - The property owner of interest.
+ *
+ * @param snapshot - The snapshot created by [[snapshotProperties]].
+ *
+ * @param properties - The properties to restore. The default is the
+ *   registered properties for the owner's constructor.
+ *
+ * #### Notes
+ * Each value is passed through the property's `deserialize` function,
+ * if one was provided, and then written with [[Property.set]]. This
+ * means the values are validated and coerced, and the usual change
+ * notifications are emitted.
+ *
+ * Snapshot entries which do not match a persistent property by name
+ * are ignored. Computed and read-only properties are never restored.
+ */
+export
+function restoreProperties(owner: IPropertyOwner, snapshot: PropertySnapshot, properties?: Property<any, any>[]): void {
+  properties = properties || getRegisteredProperties(owner.constructor);
+  for (var i = 0, n = properties.length; i < n; ++i) {
+    var property = properties[i];
+    var internals = internalsOf(property);
+    if (!internals.persist || !isWritable(property)) {
+      continue;
+    }
+    if (!snapshot.hasOwnProperty(property.name)) {
+      continue;
+    }
+    var data = snapshot[property.name];
+    var deserialize = internals.deserialize;
+    property.set(owner, deserialize ? deserialize(data) : data);
+  }
+}
+
+
+/**
+ * A schema which describes a set of named properties.
+ *
+ * #### Notes
+ * A property set is used with [[setProperties]] and [[getProperties]]
+ * to read and write several property values by name.
+ */
+export
+class PropertySet {
+  /**
+   * Construct a new property set.
+   *
+   * @param properties - The properties in the set. Each property must
+   *   have a unique name.
+   */
+  constructor(properties: Property<any, any>[]) {
+    var names: { [name: string]: Property<any, any> } = Object.create(null);
+    for (var i = 0, n = properties.length; i < n; ++i) {
+      var property = properties[i];
+      if (!property.name) {
+        throw new Error('Cannot add an unnamed property to a property set.');
+      }
+      if (property.name in names) {
+        throw new Error('Duplicate property name: ' + property.name);
+      }
+      names[property.name] = property;
+    }
+    this._properties = properties.slice();
+    this._names = names;
+  }
+
+  /**
+   * Get the properties in the set.
+   *
+   * #### Notes
+   * This returns a new array.
+   *
+   * This is a read-only property.
+   */
+  get properties(): Property<any, any>[] {
+    return this._properties.slice();
+  }
+
+  /**
+   * Find the property with the given name.
+   *
+   * @param name - The name of the property of interest.
+   *
+   * @returns The property with the given name, or `null`.
+   */
+  find(name: string): Property<any, any> {
+    return this._names[name] || null;
+  }
+
+  private _properties: Property<any, any>[];
+  private _names: { [name: string]: Property<any, any> };
+}
+
+
+/**
+ * Get the current values of a set of properties for an owner.
+ *
+ * @param owner - The property owner of interest.
+ *
+ * @param propertySet - The properties to read. The default is the set
+ *   of registered properties for the owner's constructor.
+ *
+ * @returns An object which maps property name to current value.
+ */
+export
+function getProperties(owner: IPropertyOwner, propertySet?: PropertySet): { [name: string]: any } {
+  propertySet = propertySet || defaultPropertySet(owner);
+  var result: { [name: string]: any } = {};
+  propertySet.properties.forEach(property => {
+    result[property.name] = property.get(owner);
+  });
+  return result;
+}
+
+
+/**
+ * Set the values of several properties for an owner at once.
+ *
+ * @param owner - The property owner of interest.
+ *
+ * @param values - An object which maps property name to new value.
+ *
+ * @param propertySet - The properties which may be written. The
+ *   default is the set of registered properties for the owner's
+ *   constructor.
+ *
+ * #### Notes
+ * The values are written to the `Local` layer in three phases:
+ *
+ * 1. Every value is run through the interceptors and validated. If a
+ *    name is unknown or a value is invalid, an error is thrown and no
+ *    value is written.
+ * 2. Every value is written, and then every value is coerced. This
+ *    means a `coerce` function which reads another property in the
+ *    assignment sees the newly assigned value of that property. If a
+ *    `coerce` function throws, the written values are rolled back and
+ *    the error is propagated.
+ * 3. The change notifications are emitted as a batch, so the owner
+ *    receives one `propertyChanged` signal per changed property.
+ *
+ * An interceptor observes the write when it is validated, before any
+ * of the values have been written. A write cancelled by an interceptor
+ * is skipped.
+ *
+ * Computed and read-only properties cannot be written in bulk.
+ */
+export
+function setProperties(owner: IPropertyOwner, values: { [name: string]: any }, propertySet?: PropertySet): void {
+  propertySet = propertySet || defaultPropertySet(owner);
+
+  // Resolve, intercept, and validate every value before writing.
+  var writes: IBulkWrite[] = [];
+  Object.keys(values).forEach(name => {
+    var property = propertySet.find(name);
+    if (property === null) {
+      throw new Error('Unknown property: ' + name);
+    }
+    if (!isWritable(property)) {
+      throw new Error('Cannot set property \'' + name + '\' in bulk.');
+    }
+    var internals = internalsOf(property);
+    var layer = PropertyLayer.Local;
+    interceptWrite(property, owner, 'set', layer, values[name], (value: any) => {
+      var error = internals.validateValue(owner, value);
+      if (error) {
+        throw error;
+      }
+      writes.push({
+        property: property,
+        value: value,
+        oldValue: void 0,
+        rawValue: void 0,
+        stored: false,
+        storedValue: void 0,
+      });
+    });
+  });
+
+  // Stage the raw values so the coerce functions see the new state.
+  var hash: PropertyHash = null;
+  writes.forEach(write => {
+    var internals = internalsOf(write.property);
+    var layers = lookupLayers(owner, internals.pid, false);
+    var staged: LayerValues = Object.create(null);
+    for (var key in layers) {
+      staged[key] = layers[key];
+    }
+    if (hasTransition(owner, write.property)) {
+      delete staged[PropertyLayer.Animation];
+    }
+    staged[PropertyLayer.Local] = write.value;
+    hash = lookupHash(owner, write.property);
+    write.oldValue = internals.currentValue(owner, hash);
+    write.rawValue = staged[topLayer(staged)];
+    write.stored = internals.pid in hash;
+    write.storedValue = hash[internals.pid];
+    hash[internals.pid] = write.rawValue;
+  });
+
+  // Coerce the effective values against the new state, restoring the
+  // previous state if a coerce function throws.
+  try {
+    writes.forEach(write => {
+      var internals = internalsOf(write.property);
+      hash[internals.pid] = internals.coerceValue(owner, write.rawValue);
+    });
+  } catch (err) {
+    writes.forEach(write => {
+      var pid = internalsOf(write.property).pid;
+      if (write.stored) {
+        hash[pid] = write.storedValue;
+      } else {
+        delete hash[pid];
+      }
+    });
+    throw err;
+  }
+
+  // Commit the layer values now that every value has been coerced.
+  writes.forEach(write => {
+    var layers = lookupLayers(owner, internalsOf(write.property).pid, true);
+    if (stopTransition(owner, write.property)) {
+      delete layers[PropertyLayer.Animation];
+    }
+    layers[PropertyLayer.Local] = write.value;
+  });
+
+  // Emit the change notifications for the changed values.
+  batchPropertyChanges(owner, () => {
+    writes.forEach(write => {
+      var internals = internalsOf(write.property);
+      internals.maybeNotify(owner, write.oldValue, hash[internals.pid]);
+    });
+  });
+}
+
+
+/**
+ * An object which holds a pending write for [[setProperties]].
+ */
+interface IBulkWrite {
+  /**
+   * The property being written.
+   */
+  property: Property<any, any>;
+
+  /**
+   * The validated value to write.
+   */
+  value: any;
+
+  /**
+   * The effective value before the write.
+   */
+  oldValue: any;
+
+  /**
+   * The effective value after the write, before coercion.
+   */
+  rawValue: any;
+
+  /**
+   * Whether the owner stored a value before the write.
+   */
+  stored: boolean;
+
+  /**
+   * The value stored for the owner before the write, if any.
+   */
+  storedValue: any;
+}
+
+
+/**
+ * The global promise constructor provided by the runtime.
+ */
+declare var Promise: PromiseConstructorLike;
+
+
+/**
+ * The subset of the runtime symbol function used by this module.
+ *
+ * The ES5 typings do not model symbols, so a well-known symbol is
+ * typed as the property key it is used as.
+ */
+interface ISymbolStatic {
+  /**
+   * The `Symbol.asyncIterator` symbol, if supported by the runtime.
+   */
+  asyncIterator?: string;
+}
+
+
+/**
+ * The global symbol function provided by the runtime.
+ */
+declare var Symbol: ISymbolStatic;
+
+
+/**
+ * The `Symbol.asyncIterator` symbol, if supported by the runtime.
+ */
+var asyncIteratorSymbol = typeof Symbol === 'function' ? Symbol.asyncIterator : void 0;
+
+
+/**
+ * A typedef for a hash mapping of property id to property value.
+ */
+type PropertyHash = { [key: string]: any };
+
+
+/**
+ * A weak mapping of property owner to property hash.
+ */
+var ownerData = new WeakMap<IPropertyOwner, PropertyHash>();
+
+
+/**
+ * The array of registered property interceptors.
+ *
+ * This array is replaced, rather than modified, when it changes.
+ */
+var interceptors: IPropertyInterceptor[] = [];
+
+
+/**
+ * Whether property changes are currently being traced.
+ */
+var traceEnabled = false;
+
+
+/**
+ * The circular buffer of recorded trace entries.
+ */
+var traceBuffer: IPropertyTraceEntry[] = [];
+
+
+/**
+ * The index of the oldest entry in a full trace buffer.
+ */
+var traceIndex = 0;
+
+
+/**
+ * The maximum number of entries in the trace buffer.
+ */
+var traceCapacity = 0;
+
+
+/**
+ * Whether to capture stack traces for trace entries.
+ */
+var traceStack = false;
+
+
+/**
+ * The subset of a runtime error which exposes its stack trace.
+ *
+ * The ES5 typings do not declare the non-standard `stack` property.
+ */
+interface IStackError {
+  /**
+   * The stack trace of the error, if supported by the runtime.
+   */
+  stack?: string;
+}
+
+
+/**
+ * The nesting depth of the currently running change notifications.
+ */
+var notifyDepth = 0;
+
+
+/**
+ * The maximum depth of nested change notifications.
+ */
+var maxChangeDepth = 100;
+
+
+/**
+ * An object which holds a queued change notification.
+ */
+interface IQueuedChange {
+  /**
+   * The old value of the property.
+   */
+  oldValue: any;
+
+  /**
+   * The new value of the property.
+   */
+  newValue: any;
+
+  /**
+   * Whether the change is to a value inherited from an ancestor.
+   */
+  inherited: boolean;
+}
+
+
+/**
+ * A typedef for a hash mapping of property id to queued changes.
+ */
+type ChangeQueueHash = { [pid: string]: IQueuedChange[] };
+
+
+/**
+ * A weak mapping of property owner to running change notifications.
+ */
+var activeChanges = new WeakMap<IPropertyOwner, ChangeQueueHash>();
+
+
+/**
+ * The set of change args which report a change to an inherited value.
+ */
+var inheritedChanges = new WeakSet<IPropertyChangedArgs>();
+
+
+/**
+ * An object which holds the state of a dependent coercion pass.
+ */
+interface ICoercePass {
+  /**
+   * The properties waiting to be coerced, in creation order.
+   */
+  pending: Property<any, any>[];
+
+  /**
+   * The ids of the properties already coerced by the pass.
+   */
+  done: { [pid: string]: boolean };
+}
+
+
+/**
+ * A weak mapping of property owner to active coercion pass.
+ */
+var coercePasses = new WeakMap<IPropertyOwner, ICoercePass>();
+
+
+/**
+ * An object which observes the collection value of an owner.
+ */
+interface IItemObserver {
+  /**
+   * The property which holds the collection.
+   */
+  property: Property<any, any>;
+
+  /**
+   * The owner for which the collection is stored.
+   */
+  owner: IPropertyOwner;
+
+  /**
+   * The observed collection.
+   */
+  source: ObservableList<any> | ObservableMap<any, any>;
+}
+
+
+/**
+ * A typedef for a hash mapping of property id to item observer.
+ */
+type ItemObserverHash = { [pid: string]: IItemObserver };
+
+
+/**
+ * A weak mapping of property owner to item observers.
+ */
+var itemObservers = new WeakMap<IPropertyOwner, ItemObserverHash>();
+
+
+/**
+ * A weak mapping of property owner to managed change signal host.
+ */
+var signalHosts = new WeakMap<IPropertyOwner, ChangedSignalHost>();
+
+
+/**
+ * An object which holds a registered interpolator.
+ */
+interface IInterpolatorEntry {
+  /**
+   * The test for the values handled by the interpolator.
+   */
+  test: (value: any) => boolean;
+
+  /**
+   * The interpolator for matching values.
+   */
+  interpolator: Interpolator<any>;
+}
+
+
+/**
+ * The registered interpolators, most recently registered first.
+ */
+var interpolatorEntries: IInterpolatorEntry[] = [
+  { test: value => typeof value === 'number', interpolator: interpolateNumber },
+  { test: value => parseHexColor(value) !== null, interpolator: interpolateColor },
+];
+
+
+/**
+ * The default animation clock.
+ */
+var defaultClock: IAnimationClock = {
+  now: () => Date.now(),
+  schedule: (callback: () => void) => {
+    if (typeof requestAnimationFrame === 'function') {
+      var frame = requestAnimationFrame(callback);
+      return new DisposableDelegate(() => { cancelAnimationFrame(frame); });
+    }
+    var timer = setTimeout(callback, 16);
+    return new DisposableDelegate(() => { clearTimeout(timer); });
+  },
+};
+
+
+/**
+ * The current animation clock.
+ */
+var animationClock = defaultClock;
+
+
+/**
+ * A typedef for a hash mapping of property id to transition.
+ */
+type TransitionHash = { [pid: string]: PropertyTransition };
+
+
+/**
+ * A weak mapping of property owner to in-flight transitions.
+ */
+var transitions = new WeakMap<IPropertyOwner, TransitionHash>();
+
+
+/**
+ * An object which exposes the internals of a property to this module.
+ *
+ * The internals are captured by the property constructor, so that the
+ * module functions can reach them without bypassing the type checker.
+ */
+interface IPropertyInternals {
+  /**
+   * The unique id of the property.
+   */
+  pid: string;
+
+  /**
+   * Compare two values using the property comparator.
+   */
+  compareValues: (oldValue: any, newValue: any) => boolean;
+
+  /**
+   * The creation order of the property.
+   */
+  order: number;
+
+  /**
+   * Intercept and coerce the current value for an owner.
+   */
+  coerce: (owner: IPropertyOwner) => void;
+
+  /**
+   * Validate a value for an owner.
+   */
+  validateValue: (owner: IPropertyOwner, value: any) => PropertyValidationError;
+
+  /**
+   * Get the current value for an owner without assigning it.
+   */
+  currentValue: (owner: IPropertyOwner, hash: PropertyHash) => any;
+
+  /**
+   * Coerce a value for an owner.
+   */
+  coerceValue: (owner: IPropertyOwner, value: any) => any;
+
+  /**
+   * Run the change notification if the given values are different.
+   */
+  maybeNotify: (owner: IPropertyOwner, oldValue: any, newValue: any) => void;
+
+  /**
+   * Whether the property is included in snapshots.
+   */
+  persist: boolean;
+
+  /**
+   * The function which converts a value for a snapshot, if any.
+   */
+  serialize: (value: any) => any;
+
+  /**
+   * The function which converts snapshot data to a value, if any.
+   */
+  deserialize: (data: any) => any;
+}
+
+
+/**
+ * A weak mapping of property descriptor to property internals.
+ */
+var propertyInternals = new WeakMap<Property<any, any>, IPropertyInternals>();
+
+
+/**
+ * A typedef for a hash mapping of property id to property descriptor.
+ */
+type PropertyTable = { [key: string]: Property<any, any> };
+
+
+/**
+ * A weak mapping of property owner to the properties stored for it.
+ *
+ * #### Notes
+ * The table is held by the owner, so a property descriptor is not
+ * kept alive by the module after its owners are collected.
+ */
+var ownerProperties = new WeakMap<IPropertyOwner, PropertyTable>();
+
+
+/**
+ * A typedef for a mapping of precedence layer to layer value.
+ */
+type LayerValues = { [layer: number]: any };
+
+
+/**
+ * A typedef for a hash mapping of property id to layer values.
+ */
+type LayerHash = { [key: string]: LayerValues };
+
+
+/**
+ * A weak mapping of property owner to layer hash.
+ */
+var layerData = new WeakMap<IPropertyOwner, LayerHash>();
+
+
+/**
+ * An object which holds the pending changes for a batched owner.
+ */
+interface IBatch {
+  /**
+   * The current nesting depth of the batch.
+   */
+  depth: number;
+
+  /**
+   * The pending change args, in order of first change.
+   */
+  changes: IPropertyChangedArgs[];
+}
+
+
+/**
+ * A weak mapping of property owner to active batch.
+ */
+var batchData = new WeakMap<IPropertyOwner, IBatch>();
+
+
+/**
+ * A typedef for a hash mapping of property name to property.
+ */
+type RegistryHash = { [name: string]: Property<any, any> };
+
+
+/**
+ * A weak mapping of owner type to registered properties.
+ */
+var registry = new WeakMap<Function, RegistryHash>();
+
+
+/**
+ * The default inheritance resolver which treats every owner as a root.
+ */
+var defaultResolver: IInheritanceResolver = {
+  parent: (owner: IPropertyOwner) => null,
+  children: (owner: IPropertyOwner) => [],
+};
+
+
+/**
+ * The current inheritance resolver.
+ */
+var inheritanceResolver = defaultResolver;
+
+
+/**
+ * An object which describes a tracked property dependency.
+ */
+interface IDependency {
+  /**
+   * The owner of the dependency.
+   */
+  owner: IPropertyOwner;
+
+  /**
+   * The property read from the owner.
+   */
+  property: Property<any, any>;
+}
+
+
+/**
+ * An object which holds the cached state of a computed property.
+ */
+interface IComputedEntry {
+  /**
+   * The cached computed value.
+   */
+  value: any;
+
+  /**
+   * The dependencies tracked during the last computation.
+   */
+  dependencies: IDependency[];
+
+  /**
+   * Recompute the value and notify if it changed.
+   */
+  invalidate: () => void;
+}
+
+
+/**
+ * The dependency array for the computation in progress, if any.
+ */
+var currentDependencies: IDependency[] = null;
+
+
+/**
+ * A weak mapping of dependency source to dependent computed entries.
+ */
+var dependentEntries = new WeakMap<IPropertyOwner, IComputedEntry[]>();
+
+
+/**
+ * A function which computes successive unique property ids.
+ */
+var nextPID = (() => { var id = 0; return () => 'pid-' + id++; })();
+
+
+/**
+ * A function which computes successive property creation orders.
+ */
+var nextOrder = (() => { var order = 0; return () => order++; })();
+
+
+/**
+ * Create the property changed args for the given property and values.
+ */
+function changedArgs(property: Property<any, any>, oldValue: any, newValue: any): IPropertyChangedArgs {
+  return { property: property, oldValue: oldValue, newValue: newValue };
+}
+
+
+/**
+ * Create the error thrown when the maximum change depth is exceeded.
+ */
+function changeDepthError(property: Property<any, any>): Error {
+  var msg = 'Maximum change depth exceeded while changing property \'' +
+    property.name + '\'.';
+  return new Error(msg);
+}
+
+
+/**
+ * Emit the property changed signal for the given owner.
+ *
+ * If the owner has an active batch, the change will be coalesced
+ * into the batch instead of being emitted immediately.
+ */
+function emitChanged(owner: IPropertyOwner, args: IPropertyChangedArgs): void {
+  var batch = batchData.get(owner);
+  if (batch === void 0) {
+    notifyChanged(owner, args);
+    return;
+  }
+  var changes = batch.changes;
+  for (var i = 0, n = changes.length; i < n; ++i) {
+    if (changes[i].property === args.property) {
+      var merged = changedArgs(args.property, changes[i].oldValue, args.newValue);
+      if (inheritedChanges.has(changes[i]) && inheritedChanges.has(args)) {
+        inheritedChanges.add(merged);
+      }
+      changes[i] = merged;
+      return;
+    }
+  }
+  changes.push(args);
+}
+
+
+/**
+ * Emit the change signals of the owner and property for a change.
+ */
+function notifyChanged(owner: IPropertyOwner, args: IPropertyChangedArgs): void {
+  getPropertyChangedSignal(owner).emit(args);
+  args.property.valueChanged.emit({
+    property: args.property,
+    owner: owner,
+    oldValue: args.oldValue,
+    newValue: args.newValue,
+  });
+}
+
+
+/**
+ * Emit the pending notifications for a completed batch.
+ *
+ * Changes which have netted out to equal values are dropped.
+ */
+function flushBatch(owner: IPropertyOwner, batch: IBatch): void {
+  var changes = batch.changes;
+  for (var i = 0, n = changes.length; i < n; ++i) {
+    var args = changes[i];
+    var internals = internalsOf(args.property);
+    if (!internals.compareValues(args.oldValue, args.newValue)) {
+      notifyChanged(owner, args);
+    }
+  }
+}
+
+
+/**
+ * Get the internals of a property descriptor.
+ */
+function internalsOf(property: Property<any, any>): IPropertyInternals {
+  return propertyInternals.get(property);
+}
+
+
+/**
+ * Test whether a property can be written without a key.
+ *
+ * A computed property cannot be written at all, and a read-only
+ * property can only be written with its key.
+ */
+function isWritable(property: Property<any, any>): boolean {
+  return !(property instanceof ComputedProperty || property instanceof ReadOnlyProperty);
+}
+
+
+/**
+ * Lookup the data hash for the property owner.
+ *
+ * This will create the hash if one does not already exist, and will
+ * record the property in the owner's property table.
+ */
+function lookupHash(owner: IPropertyOwner, property: Property<any, any>): PropertyHash {
+  var table = ownerProperties.get(owner);
+  if (table === void 0) {
+    table = Object.create(null);
+    ownerProperties.set(owner, table);
+  }
+  table[internalsOf(property).pid] = property;
+  var hash = ownerData.get(owner);
+  if (hash !== void 0) return hash;
+  hash = Object.create(null);
+  ownerData.set(owner, hash);
+  return hash;
+}
+
+
+/**
+ * Add a property to the global property registry.
+ *
+ * This will throw an error if a property with the same name is
+ * already registered for the property's owner type.
+ */
+function registerProperty(property: Property<any, any>): void {
+  var hash = registry.get(property.ownerType);
+  if (hash === void 0) {
+    hash = Object.create(null);
+    registry.set(property.ownerType, hash);
+  }
+  if (property.name in hash) {
+    throw new Error('Duplicate property name: ' + property.name);
+  }
+  hash[property.name] = property;
+}
+
+
+/**
+ * Get the base class type for the given class type.
+ *
+ * This returns `null` if the type has no base class.
+ */
+function baseType(type: Function): Function {
+  var proto = Object.getPrototypeOf(type.prototype);
+  return proto ? proto.constructor : null;
+}
+
+
+/**
+ * Lookup the layer values for the property owner and property id.
+ *
+ * If `create` is `true`, the layer values will be created if they
+ * do not already exist. Otherwise, `undefined` may be returned.
+ */
+function lookupLayers(owner: IPropertyOwner, pid: string, create: boolean): LayerValues {
+  var hash = layerData.get(owner);
+  if (hash === void 0) {
+    if (!create) return void 0;
+    hash = Object.create(null);
+    layerData.set(owner, hash);
+  }
+  var layers = hash[pid];
+  if (layers === void 0 && create) {
+    layers = hash[pid] = Object.create(null);
+  }
+  return layers;
+}
+
+
+/**
+ * Get the layer with the highest precedence which has a value.
+ *
+ * Returns `-1` if no layer has a value.
+ */
+function topLayer(layers: LayerValues): number {
+  var result = -1;
+  for (var key in layers) {
+    result = Math.max(result, +key);
+  }
+  return result;
+}
+
+
+/**
+ * Record a property read as a dependency of the current computation.
+ *
+ * This is a no-op if no computation is in progress.
+ */
+function trackDependency(owner: IPropertyOwner, property: Property<any, any>): void {
+  if (currentDependencies === null) {
+    return;
+  }
+  for (var i = 0, n = currentDependencies.length; i < n; ++i) {
+    var dep = currentDependencies[i];
+    if (dep.owner === owner && dep.property === property) {
+      return;
+    }
+  }
+  currentDependencies.push({ owner: owner, property: property });
+}
+
+
+/**
+ * Get the unique owners for an array of dependencies.
+ */
+function dependencySources(dependencies: IDependency[]): IPropertyOwner[] {
+  var result: IPropertyOwner[] = [];
+  for (var i = 0, n = dependencies.length; i < n; ++i) {
+    var owner = dependencies[i].owner;
+    if (result.indexOf(owner) === -1) result.push(owner);
+  }
+  return result;
+}
+
+
+/**
+ * Register a computed entry as a dependent of a source owner.
+ */
+function trackDependent(source: IPropertyOwner, entry: IComputedEntry): void {
+  var entries = dependentEntries.get(source);
+  if (entries === void 0) {
+    entries = [];
+    dependentEntries.set(source, entries);
+  }
+  if (entries.indexOf(entry) === -1) entries.push(entry);
+}
+
+
+/**
+ * Unregister a computed entry as a dependent of a source owner.
+ */
+function untrackDependent(source: IPropertyOwner, entry: IComputedEntry): void {
+  var entries = dependentEntries.get(source);
+  if (entries === void 0) {
+    return;
+  }
+  var i = entries.indexOf(entry);
+  if (i !== -1) entries.splice(i, 1);
+  if (entries.length === 0) dependentEntries.delete(source);
+}
+
+
+/**
+ * Invalidate the computed entries which depend on a changed property.
+ *
+ * #### Notes
+ * This is invoked from the change dispatch, so computed values are
+ * updated even while the `propertyChanged` signal is being batched.
+ */
+function invalidateDependents(source: IPropertyOwner, property: Property<any, any>): void {
+  var entries = dependentEntries.get(source);
+  if (entries === void 0) {
+    return;
+  }
+  entries = entries.slice();
+  for (var i = 0, n = entries.length; i < n; ++i) {
+    var dependencies = entries[i].dependencies;
+    for (var j = 0, m = dependencies.length; j < m; ++j) {
+      var dep = dependencies[j];
+      if (dep.owner === source && dep.property === property) {
+        entries[i].invalidate();
+        break;
+      }
+    }
+  }
+}
+
+
+/**
+ * A disposable object which invokes a callback when disposed.
+ */
+class DisposableDelegate implements IDisposable {
+  /**
+   * Construct a new disposable delegate.
+   */
+  constructor(callback: () => void) {
+    this._callback = callback;
+  }
+
+  /**
+   * Whether the delegate has been disposed.
+   */
+  get isDisposed(): boolean {
+    return this._callback === null;
+  }
+
+  /**
+   * Invoke the callback and dispose of the delegate.
+   */
+  dispose(): void {
+    var callback = this._callback;
+    if (callback === null) {
+      return;
+    }
+    this._callback = null;
+    callback();
+  }
+
+  private _callback: () => void;
+}
+
+
+/**
+ * A disposable object which implements a property binding.
+ */
+class PropertyBinding implements IDisposable {
+  /**
+   * Construct a new property binding.
+   */
+  constructor(
+    source: IPropertyOwner, sourceProperty: Property<any, any>,
+    target: IPropertyOwner, targetProperty: Property<any, any>,
+    options: IBindingOptions<any, any>) {
+    this._source = source;
+    this._sourceProperty = sourceProperty;
+    this._target = target;
+    this._targetProperty = targetProperty;
+    this._convert = options.convert;
+    this._convertBack = options.convertBack;
+    this._mode = options.mode || BindingMode.OneWay;
+    this._pushToTarget(sourceProperty.get(source));
+    if (this._mode === BindingMode.OneTime) {
+      this._disposed = true;
+      return;
+    }
+    getPropertyChangedSignal(source).connect(this._onSourceChanged, this);
+    if (this._mode === BindingMode.TwoWay) {
+      getPropertyChangedSignal(target).connect(this._onTargetChanged, this);
+    }
+  }
+
+  /**
+   * Whether the binding has been disposed.
+   */
+  get isDisposed(): boolean {
+    return this._disposed;
+  }
+
+  /**
+   * Disconnect the binding.
+   */
+  dispose(): void {
+    if (this._disposed) {
+      return;
+    }
+    this._disposed = true;
+    getPropertyChangedSignal(this._source).disconnect(this._onSourceChanged, this);
+    getPropertyChangedSignal(this._target).disconnect(this._onTargetChanged, this);
+  }
+
+  /**
+   * Handle the `propertyChanged` signal of the source owner.
+   */
+  private _onSourceChanged(args: IPropertyChangedArgs): void {
+    if (args.property === this._sourceProperty && !this._updating) {
+      this._pushToTarget(args.newValue);
+    }
+  }
+
+  /**
+   * Handle the `propertyChanged` signal of the target owner.
+   */
+  private _onTargetChanged(args: IPropertyChangedArgs): void {
+    if (args.property === this._targetProperty && !this._updating) {
+      this._pushToSource(args.newValue);
+    }
+  }
+
+  /**
+   * Convert and write a source value to the target property.
+   */
+  private _pushToTarget(value: any): void {
+    var convert = this._convert;
+    this._updating = true;
+    try {
+      this._targetProperty.set(this._target, convert ? convert(value) : value);
+    } finally {
+      this._updating = false;
+    }
+  }
+
+  /**
+   * Convert and write a target value to the source property.
+   */
+  private _pushToSource(value: any): void {
+    var convertBack = this._convertBack;
+    this._updating = true;
+    try {
+      this._sourceProperty.set(this._source, convertBack ? convertBack(value) : value);
+    } finally {
+      this._updating = false;
+    }
+  }
+
+  private _mode: BindingMode;
+  private _disposed = false;
+  private _updating = false;
+  private _source: IPropertyOwner;
+  private _target: IPropertyOwner;
+  private _sourceProperty: Property<any, any>;
+  private _targetProperty: Property<any, any>;
+  private _convert: (value: any) => any;
+  private _convertBack: (value: any) => any;
+}
+
+
+/**
+ * Run a property write through the registered interceptors.
+ *
+ * Returns `true` if the write was performed, or `false` if it was
+ * cancelled by an interceptor.
+ */
+function interceptWrite(property: Property<any, any>, owner: IPropertyOwner, kind: string, layer: PropertyLayer, value: any, action: (value: any) => void): boolean {
+  if (interceptors.length === 0) {
+    action(value);
+    return true;
+  }
+  var list = interceptors;
+  var index = 0;
+  var performed = false;
+  var write: IPropertyWrite = {
+    property: property,
+    owner: owner,
+    kind: kind,
+    layer: layer,
+    value: value,
+  };
+  var next = () => {
+    while (index < list.length) {
+      var interceptor = list[index++];
+      if (interceptor.intercept) {
+        interceptor.intercept(write, next);
+        return;
+      }
+    }
+    performed = true;
+    action(write.value);
+  };
+  next();
+  return performed;
+}
+
+
+/**
+ * Invoke the notify hooks of the registered interceptors.
+ */
+function interceptNotify(owner: IPropertyOwner, args: IPropertyChangedArgs): void {
+  var list = interceptors;
+  for (var i = 0, n = list.length; i < n; ++i) {
+    var notify = list[i].notify;
+    if (notify) notify(owner, args);
+  }
+}
+
+
+/**
+ * Capture the current call stack, or an empty string if unsupported.
+ */
+function captureStack(): string {
+  var error: IStackError = new Error();
+  return error.stack || '';
+}
+
+
+/**
+ * Record a property change in the trace buffer.
+ */
+function recordTrace(owner: IPropertyOwner, args: IPropertyChangedArgs): void {
+  var entry: IPropertyTraceEntry = {
+    property: args.property,
+    name: args.property.name,
+    owner: owner,
+    oldValue: args.oldValue,
+    newValue: args.newValue,
+    timestamp: Date.now(),
+    stack: traceStack ? captureStack() : '',
+    depth: notifyDepth,
+  };
+  if (traceBuffer.length < traceCapacity) {
+    traceBuffer.push(entry);
+  } else {
+    traceBuffer[traceIndex] = entry;
+    traceIndex = (traceIndex + 1) % traceCapacity;
+  }
+}
+
+
+/**
+ * Coerce the dependent properties of a changed property.
+ *
+ * If a coercion pass is already active for the owner, the properties
+ * are added to that pass instead of starting a new one.
+ */
+function coerceDependents(owner: IPropertyOwner, dependents: Property<any, any>[]): void {
+  var pass = coercePasses.get(owner);
+  if (pass !== void 0) {
+    enqueueCoercion(pass, dependents);
+    return;
+  }
+  pass = { pending: [], done: Object.create(null) };
+  enqueueCoercion(pass, dependents);
+  coercePasses.set(owner, pass);
+  try {
+    while (pass.pending.length > 0) {
+      var internals = internalsOf(pass.pending.shift());
+      pass.done[internals.pid] = true;
+      internals.coerce(owner);
+    }
+  } finally {
+    coercePasses.delete(owner);
+  }
+}
+
+
+/**
+ * Add properties to the pending list of a coercion pass.
+ *
+ * This throws an error if a property has already been coerced by
+ * the pass, which indicates a cyclic dependency.
+ */
+function enqueueCoercion(pass: ICoercePass, properties: Property<any, any>[]): void {
+  var pending = pass.pending;
+  for (var i = 0, n = properties.length; i < n; ++i) {
+    var property = properties[i];
+    if (internalsOf(property).pid in pass.done) {
+      var msg = 'Cyclic coercion dependency detected for property \'' +
+        property.name + '\'.';
+      throw new Error(msg);
+    }
+    if (pending.indexOf(property) !== -1) {
+      continue;
+    }
+    var order = internalsOf(property).order;
+    var j = 0;
+    while (j < pending.length && internalsOf(pending[j]).order < order) ++j;
+    pending.splice(j, 0, property);
+  }
+}
+
+
+/**
+ * Create the default property set for an owner.
+ */
+function defaultPropertySet(owner: IPropertyOwner): PropertySet {
+  return new PropertySet(getRegisteredProperties(owner.constructor));
+}
+
+
+/**
+ * Observe the collection value stored for a property and owner.
+ *
+ * Any previously observed collection for the property and owner is
+ * disconnected. If the value is not an observable collection, no new
+ * collection is observed.
+ */
+function observeItems(property: Property<any, any>, owner: IPropertyOwner, value: any): void {
+  var pid = internalsOf(property).pid;
+  var hash = itemObservers.get(owner);
+  var observer = hash !== void 0 ? hash[pid] : void 0;
+  var isCollection = value instanceof ObservableList || value instanceof ObservableMap;
+  var source = isCollection ? value : null;
+  if (observer !== void 0 && observer.source === source) {
+    return;
+  }
+  if (observer !== void 0) {
+    var signal: ISignal<any> = observer.source.changed;
+    signal.disconnect(onItemsChanged, observer);
+    delete hash[pid];
+  }
+  if (source === null) {
+    return;
+  }
+  if (hash === void 0) {
+    hash = Object.create(null);
+    itemObservers.set(owner, hash);
+  }
+  observer = hash[pid] = { property: property, owner: owner, source: source };
+  source.changed.connect(onItemsChanged, observer);
+}
+
+
+/**
+ * Handle the `changed` signal of an observed collection.
+ *
+ * The `this` context is the item observer for the collection.
+ */
+function onItemsChanged(args: IListChangedArgs<any> | IMapChangedArgs<any, any>): void {
+  var observer: IItemObserver = this;
+  var property = observer.property;
+  property.itemsChanged.emit({ property: property, owner: observer.owner, args: args });
+}
+
+
+/**
+ * Test whether two values are equal using `SameValueZero`.
+ */
+function sameValueZero(first: any, second: any): boolean {
+  return first === second || (first !== first && second !== second);
+}
+
+
+/**
+ * Test whether a value is a non-null object.
+ */
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object';
+}
+
+
+/**
+ * Test whether an object has an own property with the given key.
+ */
+function hasOwn(object: any, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+
+/**
+ * The recursive implementation of [[deepEqual]].
+ *
+ * The stacks hold the pairs of objects currently being compared, and
+ * are used to detect cycles.
+ */
+function deepEqualImpl(first: any, second: any, firstStack: any[], secondStack: any[]): boolean {
+  if (sameValueZero(first, second)) {
+    return true;
+  }
+  if (!isObject(first) || !isObject(second)) {
+    return false;
+  }
+  if (Object.getPrototypeOf(first) !== Object.getPrototypeOf(second)) {
+    return false;
+  }
+  if (first instanceof Date) {
+    return dateEqual(first, second);
+  }
+  if (first instanceof RegExp) {
+    return String(first) === String(second);
+  }
+  if (first instanceof WeakMap || first instanceof WeakSet) {
+    return false;
+  }
+  for (var i = firstStack.length - 1; i >= 0; --i) {
+    if (firstStack[i] === first) {
+      return secondStack[i] === second;
+    }
+  }
+  firstStack.push(first);
+  secondStack.push(second);
+  var result: boolean;
+  if (Array.isArray(first)) {
+    result = deepArrayEqual(first, second, firstStack, secondStack);
+  } else if (first instanceof Map) {
+    result = mapEqual(first, second, (a, b) => {
+      return deepEqualImpl(a, b, firstStack, secondStack);
+    });
+  } else if (first instanceof Set) {
+    result = setEqual(first, second);
+  } else {
+    result = deepObjectEqual(first, second, firstStack, secondStack);
+  }
+  firstStack.pop();
+  secondStack.pop();
+  return result;
+}
+
+
+/**
+ * Test whether two arrays are deeply equal.
+ */
+function deepArrayEqual(first: any[], second: any[], firstStack: any[], secondStack: any[]): boolean {
+  if (first.length !== second.length) {
+    return false;
+  }
+  for (var i = 0, n = first.length; i < n; ++i) {
+    if (!deepEqualImpl(first[i], second[i], firstStack, secondStack)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+
+/**
+ * Test whether two maps have the same keys and equal values.
+ */
+function mapEqual(first: Map<any, any>, second: Map<any, any>, compare: (first: any, second: any) => boolean): boolean {
+  if (first.size !== second.size) {
+    return false;
+  }
+  var result = true;
+  first.forEach((value, key) => {
+    if (!result) {
+      return;
+    }
+    if (!second.has(key)) {
+      result = false;
+    } else {
+      result = compare(value, second.get(key));
+    }
+  });
+  return result;
+}
+
+
+/**
+ * Test whether two sets have the same elements.
+ */
+function setEqual(first: Set<any>, second: Set<any>): boolean {
+  if (first.size !== second.size) {
+    return false;
+  }
+  var result = true;
+  first.forEach(value => {
+    if (result && !second.has(value)) result = false;
+  });
+  return result;
+}
+
+
+/**
+ * Test whether two objects are deeply equal.
+ */
+function deepObjectEqual(first: any, second: any, firstStack: any[], secondStack: any[]): boolean {
+  var keys = Object.keys(first);
+  if (keys.length !== Object.keys(second).length) {
+    return false;
+  }
+  for (var i = 0, n = keys.length; i < n; ++i) {
+    var key = keys[i];
+    if (!hasOwn(second, key)) {
+      return false;
+    }
+    if (!deepEqualImpl(first[key], second[key], firstStack, secondStack)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+
+/**
+ * Create a promise which resolves with an iterator result.
+ */
+function iteratorResult<U>(done: boolean, value: U): PromiseLike<IPropertyChangeResult<U>> {
+  return new Promise<IPropertyChangeResult<U>>(resolve => {
+    resolve({ done: done, value: value });
+  });
+}
+
+
+/**
+ * A concrete implementation of IPropertyChangeIterator.
+ */
+class PropertyChangeIterator<U> implements IPropertyChangeIterator<U> {
+  /**
+   * Construct a new property change iterator.
    */
-  private _maybeNotify(owner: T, oldValue: U, newValue: U): void {
-    if (!this._compareValues(oldValue, newValue)) {
-      var changed = this._changed;
-      if (changed) changed(owner, oldValue, newValue);
-      owner.propertyChanged.emit(changedArgs(this, oldValue, newValue));
+  constructor(owner: IPropertyOwner, property: Property<any, U>) {
+    this._owner = owner;
+    this._property = property;
+    if (asyncIteratorSymbol) {
+      Object.defineProperty(this, asyncIteratorSymbol, { value: () => this });
     }
+    getPropertyChangedSignal(owner).connect(this._onChanged, this);
   }
 
-  private _value: U;
-  private _pid = nextPID();
-  private _create: (owner: T) => U;
-  private _coerce: (owner: T, value: U) => U;
-  private _compare: (oldValue: U, newValue: U) => boolean;
-  private _changed: (owner: T, oldValue: U, newValue: U) => void;
+  /**
+   * Get a promise which resolves with the next changed value.
+   */
+  next(): PromiseLike<IPropertyChangeResult<U>> {
+    if (this._values.length > 0) {
+      return iteratorResult(false, this._values.shift());
+    }
+    if (this._done) {
+      return iteratorResult<U>(true, void 0);
+    }
+    return new Promise<IPropertyChangeResult<U>>(resolve => {
+      this._resolvers.push(resolve);
+    });
+  }
+
+  /**
+   * Stop the iteration and disconnect from the owner.
+   */
+  return(): PromiseLike<IPropertyChangeResult<U>> {
+    if (!this._done) {
+      this._done = true;
+      this._values = [];
+      getPropertyChangedSignal(this._owner).disconnect(this._onChanged, this);
+      var resolvers = this._resolvers;
+      this._resolvers = [];
+      resolvers.forEach(resolve => { resolve({ done: true, value: void 0 }); });
+    }
+    return iteratorResult<U>(true, void 0);
+  }
+
+  /**
+   * Handle the `propertyChanged` signal of the owner.
+   */
+  private _onChanged(args: IPropertyChangedArgs): void {
+    if (args.property !== this._property) {
+      return;
+    }
+    if (this._resolvers.length > 0) {
+      this._resolvers.shift()({ done: false, value: args.newValue });
+    } else {
+      this._values.push(args.newValue);
+    }
+  }
+
+  private _owner: IPropertyOwner;
+  private _property: Property<any, U>;
+  private _values: U[] = [];
+  private _resolvers: ((result: IPropertyChangeResult<U>) => void)[] = [];
+  private _done = false;
 }
 
 
 /**
- * Clear the stored property data for the given property owner.
+ * A concrete implementation of IPropertySubscription.
+ */
+class PropertySubscription<U> implements IPropertySubscription {
+  /**
+   * Construct a new property subscription.
+   */
+  constructor(owner: IPropertyOwner, property: Property<any, U>, callback: (value: U) => void) {
+    this._owner = owner;
+    this._property = property;
+    this._callback = callback;
+    callback(property.get(owner));
+    getPropertyChangedSignal(owner).connect(this._onChanged, this);
+  }
+
+  /**
+   * Whether the subscription has been closed.
+   */
+  get closed(): boolean {
+    return this._callback === null;
+  }
+
+  /**
+   * Close the subscription and disconnect from the owner.
+   */
+  unsubscribe(): void {
+    if (this._callback === null) {
+      return;
+    }
+    this._callback = null;
+    getPropertyChangedSignal(this._owner).disconnect(this._onChanged, this);
+  }
+
+  /**
+   * Handle the `propertyChanged` signal of the owner.
+   */
+  private _onChanged(args: IPropertyChangedArgs): void {
+    if (args.property === this._property) {
+      this._callback(args.newValue);
+    }
+  }
+
+  private _owner: IPropertyOwner;
+  private _property: Property<any, U>;
+  private _callback: (value: U) => void;
+}
+
+
+/**
+ * An object which holds the managed change signal for an owner.
+ */
+class ChangedSignalHost {
+  /**
+   * Construct a new changed signal host.
+   */
+  constructor(owner: IPropertyOwner) {
+    this.owner = owner;
+  }
+
+  /**
+   * The managed change signal for the owner.
+   */
+  @defineSignal
+  propertyChanged: ISignal<IPropertyChangedArgs>;
+
+  /**
+   * The owner for which the signal is managed.
+   */
+  owner: IPropertyOwner;
+}
+
+
+/**
+ * Get the property owner of the change signal being emitted.
  *
- * @param owner - The property owner of interest.
+ * This maps a managed signal host back to its owner.
+ */
+function changedOwner(): IPropertyOwner {
+  var source = emitter();
+  return source instanceof ChangedSignalHost ? source.owner : source;
+}
+
+
+/**
+ * Parse a hex color string into its RGB components.
  *
- * #### Notes
- * This will clear all property values for the owner, but it will
- * **not** emit any property change notifications.
+ * Returns `null` if the value is not a `#rgb` or `#rrggbb` string.
  */
-export
-function clearPropertyData(owner: IPropertyOwner): void {
-  ownerData.delete(owner);
+function parseHexColor(value: any): number[] {
+  if (typeof value !== 'string' || !/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value)) {
+    return null;
+  }
+  var hex: string = value.slice(1);
+  if (hex.length === 3) {
+    hex = hex[0] + hex[0] + hex[1] + hex[1] + hex[2] + hex[2];
+  }
+  return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16));
 }
 
 
 /**
- * A typedef for a hash mapping of property id to property value.
+ * Find the registered interpolator for a pair of values, or `null`.
  */
-type PropertyHash = { [key: string]: any };
+function findInterpolator(from: any, to: any): Interpolator<any> {
+  for (var i = 0, n = interpolatorEntries.length; i < n; ++i) {
+    var entry = interpolatorEntries[i];
+    if (entry.test(from) && entry.test(to)) {
+      return entry.interpolator;
+    }
+  }
+  return null;
+}
 
 
 /**
- * A weak mapping of property owner to property hash.
+ * Test whether a property has an in-flight transition for an owner.
  */
-var ownerData = new WeakMap<IPropertyOwner, PropertyHash>();
+function hasTransition(owner: IPropertyOwner, property: Property<any, any>): boolean {
+  var hash = transitions.get(owner);
+  return hash !== void 0 && internalsOf(property).pid in hash;
+}
 
 
 /**
- * A function which computes successive unique property ids.
+ * Stop the in-flight transition for a property and owner.
+ *
+ * This does not modify the `Animation` layer. Returns `true` if a
+ * transition was stopped, `false` otherwise.
  */
-var nextPID = (() => { var id = 0; return () => 'pid-' + id++; })();
+function stopTransition(owner: IPropertyOwner, property: Property<any, any>): boolean {
+  var hash = transitions.get(owner);
+  var pid = internalsOf(property).pid;
+  if (hash === void 0 || !(pid in hash)) {
+    return false;
+  }
+  var transition = hash[pid];
+  delete hash[pid];
+  transition.halt();
+  return true;
+}
 
 
 /**
- * Create the property changed args for the given property and values.
+ * The resolved options for a property transition.
  */
-function changedArgs(property: Property<any, any>, oldValue: any, newValue: any): IPropertyChangedArgs {
-  return { property: property, oldValue: oldValue, newValue: newValue };
+interface IResolvedTransitionOptions {
+  /**
+   * The duration of the transition in milliseconds.
+   */
+  duration: number;
+
+  /**
+   * The easing function for the transition.
+   */
+  easing: EasingFunction;
+
+  /**
+   * The interpolator for the transition.
+   */
+  interpolator: Interpolator<any>;
 }
 
 
 /**
- * Lookup the data hash for the property owner.
- *
- * This will create the hash if one does not already exist.
+ * A disposable object which runs a property transition.
  */
-function lookupHash(owner: IPropertyOwner): PropertyHash {
-  var hash = ownerData.get(owner);
-  if (hash !== void 0) return hash;
-  hash = Object.create(null);
-  ownerData.set(owner, hash);
-  return hash;
+class PropertyTransition implements IDisposable {
+  /**
+   * Construct a new property transition.
+   */
+  constructor(owner: IPropertyOwner, property: Property<any, any>, from: any, to: any, options: IResolvedTransitionOptions) {
+    this._owner = owner;
+    this._property = property;
+    this._from = from;
+    this._to = to;
+    this._options = options;
+  }
+
+  /**
+   * Whether the transition has finished or been cancelled.
+   */
+  get isDisposed(): boolean {
+    return this._halted;
+  }
+
+  /**
+   * Cancel the transition and clear the animated value.
+   */
+  dispose(): void {
+    if (this._halted) {
+      return;
+    }
+    stopTransition(this._owner, this._property);
+    this._property.clearLayerValue(this._owner, PropertyLayer.Animation);
+  }
+
+  /**
+   * Start the transition with the given clock.
+   */
+  start(clock: IAnimationClock): void {
+    this._clock = clock;
+    this._startTime = clock.now();
+    this._tick();
+  }
+
+  /**
+   * Stop the transition without modifying the property.
+   */
+  halt(): void {
+    this._halted = true;
+    if (this._frame !== null) {
+      this._frame.dispose();
+      this._frame = null;
+    }
+  }
+
+  /**
+   * Advance the transition to the current time of the clock.
+   *
+   * If the frame throws an error, the transition is cancelled before
+   * the error is propagated.
+   */
+  private _tick(): void {
+    this._frame = null;
+    try {
+      this._step();
+    } catch (err) {
+      this.dispose();
+      throw err;
+    }
+  }
+
+  /**
+   * Write the value of the transition for the current time.
+   */
+  private _step(): void {
+    var duration = this._options.duration;
+    var elapsed = this._clock.now() - this._startTime;
+    if (!(duration > 0) || elapsed >= duration) {
+      this._property.set(this._owner, this._to);
+      if (!this._halted) this.dispose();
+      return;
+    }
+    var t = this._options.easing(elapsed / duration);
+    var value = this._options.interpolator(this._from, this._to, t);
+    this._property.setLayerValue(this._owner, PropertyLayer.Animation, value);
+    if (!this._halted) {
+      this._frame = this._clock.schedule(() => { this._tick(); });
+    }
+  }
+
+  private _owner: IPropertyOwner;
+  private _property: Property<any, any>;
+  private _from: any;
+  private _to: any;
+  private _options: IResolvedTransitionOptions;
+  private _clock: IAnimationClock = null;
+  private _startTime = 0;
+  private _frame: IDisposable = null;
+  private _halted = false;
 }
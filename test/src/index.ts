@@ -14,10 +14,28 @@ import {
 } from 'phosphor-signaling';
 
 import {
-  IPropertyChangedArgs, IPropertyOwner, Property, clearPropertyData
+  BindingMode, ComputedProperty, IAnimationClock, IInheritanceResolver,
+  IListChangedArgs, IMapChangedArgs, IPropertyChangeResult,
+  IPropertyChangedArgs, IPropertyItemsChangedArgs, IPropertyOwner,
+  IPropertyValueChangedArgs, IPropertyWrite, ListChangeType, MapChangeType,
+  ObservableList, ObservableMap, Property, PropertyHistory, PropertyLayer,
+  PropertySet, PropertyValidationError, ReadOnlyProperty,
+  addPropertyInterceptor, arrayEqual, batchPropertyChanges, bind,
+  clearPropertyData, clearPropertyTrace, dateEqual, deepEqual,
+  dumpPropertyTrace, easeIn, easeInOut, easeLinear, easeOut, epsilonEqual,
+  findProperty, getProperties, getPropertyChangedSignal, getPropertyEntries,
+  getPropertyTrace, getRegisteredProperties, interpolateColor,
+  interpolateNumber, observeProperty, property, propertyChanges,
+  registerInterpolator, restoreProperties, setAnimationClock,
+  setInheritanceResolver, setMaxChangeDepth, setProperties, shallowEqual,
+  snapshotProperties, startPropertyTrace, stopPropertyTrace,
+  transitionProperty
 } from '../../lib/index';
 
 
+declare var Symbol: any;
+
+
 class Model implements IPropertyOwner {
 
   @defineSignal
@@ -25,6 +43,56 @@ class Model implements IPropertyOwner {
 }
 
 
+class TreeModel extends Model {
+
+  constructor(parent: TreeModel = null) {
+    super();
+    this.parent = parent;
+    if (parent) parent.children.push(this);
+  }
+
+  parent: TreeModel;
+
+  children: TreeModel[] = [];
+}
+
+
+class ManualClock implements IAnimationClock {
+
+  time = 0;
+
+  callbacks: (() => void)[] = [];
+
+  now(): number {
+    return this.time;
+  }
+
+  schedule(callback: () => void) {
+    this.callbacks.push(callback);
+    return {
+      isDisposed: false,
+      dispose: () => {
+        var i = this.callbacks.indexOf(callback);
+        if (i !== -1) this.callbacks.splice(i, 1);
+      },
+    };
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+    var callbacks = this.callbacks;
+    this.callbacks = [];
+    callbacks.forEach(callback => { callback(); });
+  }
+}
+
+
+var treeResolver: IInheritanceResolver = {
+  parent: (owner: TreeModel) => owner.parent || null,
+  children: (owner: TreeModel) => owner.children || [],
+};
+
+
 describe('phosphor-properties', () => {
 
   describe('Property', () => {
@@ -38,8 +106,11 @@ describe('phosphor-properties', () => {
 
       it('should accept a single options argument', () => {
         var p = new Property<Model, number>({
+          name: 'p',
+          description: 'A test property.',
           value: 12,
           create: (owner) => 42,
+          validate: (owner, value) => value < 100 ? '' : 'too big',
           coerce: (owner, value) => Math.max(0, value),
           compare: (oldValue, newValue) => oldValue === newValue,
           changed: (owner, oldValue, newValue) => { },
@@ -49,6 +120,481 @@ describe('phosphor-properties', () => {
 
     });
 
+    describe('#name', () => {
+
+      it('should be the name provided to the constructor', () => {
+        var p = new Property<Model, number>({ name: 'value' });
+        expect(p.name).to.be('value');
+      });
+
+      it('should default to an empty string', () => {
+        var p = new Property<Model, number>();
+        expect(p.name).to.be('');
+      });
+
+      it('should be read-only', () => {
+        var p = new Property<Model, number>({ name: 'value' });
+        expect(() => { (<any>p).name = 'other'; }).to.throwError();
+      });
+
+    });
+
+    describe('#ownerType', () => {
+
+      it('should be the owner type provided to the constructor', () => {
+        class Owner extends Model { }
+        var p = new Property<Model, number>({ ownerType: Owner });
+        expect(p.ownerType).to.be(Owner);
+      });
+
+      it('should default to `null`', () => {
+        var p = new Property<Model, number>();
+        expect(p.ownerType).to.be(null);
+      });
+
+    });
+
+    describe('#description', () => {
+
+      it('should be the description provided to the constructor', () => {
+        var p = new Property<Model, number>({ description: 'A value.' });
+        expect(p.description).to.be('A value.');
+      });
+
+      it('should default to an empty string', () => {
+        var p = new Property<Model, number>();
+        expect(p.description).to.be('');
+      });
+
+    });
+
+    describe('#inherits', () => {
+
+      beforeEach(() => {
+        setInheritanceResolver(treeResolver);
+      });
+
+      afterEach(() => {
+        setInheritanceResolver(null);
+      });
+
+      it('should return the value of the nearest ancestor', () => {
+        var p = new Property<TreeModel, number>({ value: 0, inherits: true });
+        var m1 = new TreeModel();
+        var m2 = new TreeModel(m1);
+        var m3 = new TreeModel(m2);
+        p.set(m1, 1);
+        expect(p.get(m3)).to.be(1);
+        p.set(m2, 2);
+        expect(p.get(m3)).to.be(2);
+        expect(p.get(m1)).to.be(1);
+      });
+
+      it('should prefer a local value over an inherited value', () => {
+        var p = new Property<TreeModel, number>({ value: 0, inherits: true });
+        var m1 = new TreeModel();
+        var m2 = new TreeModel(m1);
+        p.set(m1, 1);
+        p.set(m2, 2);
+        expect(p.get(m2)).to.be(2);
+      });
+
+      it('should assign the default value to the root of the chain', () => {
+        var owners: TreeModel[] = [];
+        var create = (owner: TreeModel) => (owners.push(owner), 42);
+        var p = new Property<TreeModel, number>({ create: create, inherits: true });
+        var m1 = new TreeModel();
+        var m2 = new TreeModel(m1);
+        expect(p.get(m2)).to.be(42);
+        expect(p.get(m1)).to.be(42);
+        expect(owners).to.eql([m1]);
+      });
+
+      it('should not inherit values for a normal property', () => {
+        var p = new Property<TreeModel, number>({ value: 0 });
+        var m1 = new TreeModel();
+        var m2 = new TreeModel(m1);
+        p.set(m1, 1);
+        expect(p.get(m2)).to.be(0);
+      });
+
+      it('should use the inherited value as the old value for a set', () => {
+        var oldvals: number[] = [];
+        var changed = (m: TreeModel, o: number, n: number) => { oldvals.push(o); };
+        var p = new Property<TreeModel, number>({ value: 0, inherits: true, changed: changed });
+        var m1 = new TreeModel();
+        var m2 = new TreeModel(m1);
+        p.set(m1, 1);
+        oldvals = [];
+        p.set(m2, 2);
+        expect(oldvals).to.eql([1]);
+      });
+
+      it('should notify the descendants which inherit the value', () => {
+        var models: TreeModel[] = [];
+        var args: IPropertyChangedArgs[] = [];
+        var changed = (m: TreeModel) => { models.push(m); };
+        var p = new Property<TreeModel, number>({ value: 0, inherits: true, changed: changed });
+        var m1 = new TreeModel();
+        var m2 = new TreeModel(m1);
+        var m3 = new TreeModel(m2);
+        var m4 = new TreeModel(m1);
+        m3.propertyChanged.connect(a => { args.push(a); });
+        p.set(m1, 1);
+        expect(models).to.eql([m1, m2, m3, m4]);
+        expect(args.length).to.be(1);
+        expect(args[0].property).to.be(p);
+        expect(args[0].oldValue).to.be(0);
+        expect(args[0].newValue).to.be(1);
+      });
+
+      it('should not notify the descendants which have a local value', () => {
+        var models: TreeModel[] = [];
+        var changed = (m: TreeModel) => { models.push(m); };
+        var p = new Property<TreeModel, number>({ value: 0, inherits: true, changed: changed });
+        var m1 = new TreeModel();
+        var m2 = new TreeModel(m1);
+        var m3 = new TreeModel(m2);
+        var m4 = new TreeModel(m1);
+        p.set(m2, 2);
+        models = [];
+        p.set(m1, 1);
+        expect(models).to.eql([m1, m4]);
+      });
+
+      it('should notify the descendants when the value is coerced', () => {
+        var models: TreeModel[] = [];
+        var changed = (m: TreeModel) => { models.push(m); };
+        var coerce = (m: TreeModel, v: number) => Math.max(10, v);
+        var p = new Property<TreeModel, number>({
+          value: 0, inherits: true, coerce: coerce, changed: changed,
+        });
+        var m1 = new TreeModel();
+        var m2 = new TreeModel(m1);
+        p.coerce(m1);
+        expect(models).to.eql([m1, m2]);
+        expect(p.get(m2)).to.be(10);
+      });
+
+    });
+
+    describe('#coerceWith', () => {
+
+      it('should coerce the property when a dependency changes', () => {
+        var minimum = new Property<Model, number>({ value: 0 });
+        var maximum = new Property<Model, number>({ value: 10 });
+        var value = new Property<Model, number>({
+          value: 5,
+          coerce: (owner, v) => {
+            return Math.max(minimum.get(owner), Math.min(maximum.get(owner), v));
+          },
+          coerceWith: [minimum, maximum],
+        });
+        var m = new Model();
+        value.set(m, 8);
+        maximum.set(m, 6);
+        expect(value.get(m)).to.be(6);
+        minimum.set(m, 7);
+        expect(value.get(m)).to.be(7);
+        maximum.set(m, 20);
+        minimum.set(m, 0);
+        expect(value.get(m)).to.be(8);
+      });
+
+      it('should restore the layer value when a constraint is relaxed', () => {
+        var maximum = new Property<Model, number>({ value: 100 });
+        var value = new Property<Model, number>({
+          value: 0,
+          coerce: (owner, v) => Math.min(maximum.get(owner), v),
+          coerceWith: [maximum],
+        });
+        var m = new Model();
+        value.set(m, 80);
+        maximum.set(m, 50);
+        expect(value.get(m)).to.be(50);
+        maximum.set(m, 100);
+        expect(value.get(m)).to.be(80);
+        expect(value.getLayerValue(m, PropertyLayer.Local)).to.be(80);
+      });
+
+      it('should only coerce the property for the same owner', () => {
+        var maximum = new Property<Model, number>({ value: 10 });
+        var value = new Property<Model, number>({
+          value: 5,
+          coerce: (owner, v) => Math.min(maximum.get(owner), v),
+          coerceWith: [maximum],
+        });
+        var m1 = new Model();
+        var m2 = new Model();
+        value.set(m1, 8);
+        value.set(m2, 8);
+        maximum.set(m1, 4);
+        expect(value.get(m1)).to.be(4);
+        expect(value.get(m2)).to.be(8);
+      });
+
+      it('should not store a value for an owner which inherits it', () => {
+        setInheritanceResolver(treeResolver);
+        try {
+          var maximum = new Property<TreeModel, number>({ value: 10 });
+          var value = new Property<TreeModel, number>({
+            value: 5,
+            inherits: true,
+            coerce: (owner, v) => Math.min(maximum.get(owner), v),
+            coerceWith: [maximum],
+          });
+          var m1 = new TreeModel();
+          var m2 = new TreeModel(m1);
+          value.set(m1, 8);
+          maximum.set(m2, 4);
+          expect(value.has(m2)).to.be(false);
+          expect(value.get(m2)).to.be(8);
+          value.set(m1, 2);
+          expect(value.get(m2)).to.be(2);
+          value.coerce(m2);
+          expect(value.has(m2)).to.be(false);
+        } finally {
+          setInheritanceResolver(null);
+        }
+      });
+
+      it('should coerce each dependent once in creation order', () => {
+        var log: string[] = [];
+        var minimum = new Property<Model, number>({ name: 'minimum', value: 0 });
+        var maximum = new Property<Model, number>({
+          name: 'maximum',
+          value: 10,
+          coerce: (owner, v) => {
+            log.push('maximum');
+            return Math.max(minimum.get(owner), v);
+          },
+          coerceWith: [minimum],
+        });
+        var value = new Property<Model, number>({
+          name: 'value',
+          value: 5,
+          coerce: (owner, v) => {
+            log.push('value');
+            return Math.max(minimum.get(owner), Math.min(maximum.get(owner), v));
+          },
+          coerceWith: [maximum, minimum],
+        });
+        var m = new Model();
+        value.get(m);
+        maximum.get(m);
+        log = [];
+        minimum.set(m, 20);
+        expect(log).to.eql(['maximum', 'value']);
+        expect(maximum.get(m)).to.be(20);
+        expect(value.get(m)).to.be(20);
+      });
+
+      it('should emit the change signals for the coerced properties', () => {
+        var args: IPropertyChangedArgs[] = [];
+        var maximum = new Property<Model, number>({ value: 10 });
+        var value = new Property<Model, number>({
+          value: 5,
+          coerce: (owner, v) => Math.min(maximum.get(owner), v),
+          coerceWith: [maximum],
+        });
+        var m = new Model();
+        value.set(m, 8);
+        m.propertyChanged.connect(a => { args.push(a); });
+        maximum.set(m, 3);
+        expect(args.map(a => a.property)).to.eql([maximum, value]);
+        expect(args[1].oldValue).to.be(8);
+        expect(args[1].newValue).to.be(3);
+      });
+
+      it('should coerce a read-only property without its key', () => {
+        var key = {};
+        var maximum = new Property<Model, number>({ value: 10 });
+        var value = new ReadOnlyProperty<Model, number>({
+          key: key,
+          value: 5,
+          coerce: (owner, v) => Math.min(maximum.get(owner), v),
+          coerceWith: [maximum],
+        });
+        var m = new Model();
+        maximum.set(m, 2);
+        expect(value.get(m)).to.be(2);
+      });
+
+      it('should throw an error for a cyclic dependency', () => {
+        var source = new Property<Model, number>({ value: 0 });
+        var other = new Property<Model, number>({ value: 0 });
+        var target = new Property<Model, number>({
+          value: 0,
+          coerce: (owner, v) => source.get(owner) + other.get(owner),
+          changed: (owner, o, v) => { other.set(owner, v + 1); },
+          coerceWith: [source, other],
+        });
+        var m = new Model();
+        expect(() => { source.set(m, 1); }).to.throwError(/Cyclic/);
+      });
+
+    });
+
+    describe('#valueChanged', () => {
+
+      it('should be emitted when the value changes for any owner', () => {
+        var args: IPropertyValueChangedArgs[] = [];
+        var p = new Property<Model, number>({ value: 0 });
+        var m1 = new Model();
+        var m2 = new Model();
+        p.valueChanged.connect(a => { args.push(a); });
+        p.set(m1, 1);
+        p.set(m2, 2);
+        expect(args.length).to.be(2);
+        expect(args[0].owner).to.be(m1);
+        expect(args[0].property).to.be(p);
+        expect(args[0].oldValue).to.be(0);
+        expect(args[0].newValue).to.be(1);
+        expect(args[1].owner).to.be(m2);
+        expect(args[1].newValue).to.be(2);
+      });
+
+      it('should use the property as the emitter', () => {
+        var sender: any = null;
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        p.valueChanged.connect(() => { sender = emitter(); });
+        p.set(m, 1);
+        expect(sender).to.be(p);
+      });
+
+      it('should not be emitted for other properties', () => {
+        var called = false;
+        var p1 = new Property<Model, number>({ value: 0 });
+        var p2 = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        p1.valueChanged.connect(() => { called = true; });
+        p2.set(m, 1);
+        expect(called).to.be(false);
+      });
+
+      it('should not be emitted if the value does not change', () => {
+        var called = false;
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        p.valueChanged.connect(() => { called = true; });
+        p.set(m, 0);
+        expect(called).to.be(false);
+      });
+
+      it('should be emitted after the `propertyChanged` signal', () => {
+        var result: string[] = [];
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        p.valueChanged.connect(() => { result.push('p'); });
+        m.propertyChanged.connect(() => { result.push('m'); });
+        p.set(m, 1);
+        expect(result).to.eql(['m', 'p']);
+      });
+
+      it('should be deferred by a batch', () => {
+        var args: IPropertyValueChangedArgs[] = [];
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        p.valueChanged.connect(a => { args.push(a); });
+        batchPropertyChanges(m, () => {
+          p.set(m, 1);
+          p.set(m, 2);
+          expect(args.length).to.be(0);
+        });
+        expect(args.length).to.be(1);
+        expect(args[0].oldValue).to.be(0);
+        expect(args[0].newValue).to.be(2);
+      });
+
+    });
+
+    describe('#itemsChanged', () => {
+
+      it('should be emitted when an observable list is mutated', () => {
+        var args: IPropertyItemsChangedArgs[] = [];
+        var p = new Property<Model, ObservableList<number>>({
+          create: () => new ObservableList<number>(),
+          observeItems: true,
+        });
+        var m = new Model();
+        p.itemsChanged.connect(a => { args.push(a); });
+        p.get(m).add(1);
+        expect(args.length).to.be(1);
+        expect(args[0].property).to.be(p);
+        expect(args[0].owner).to.be(m);
+        var list = <IListChangedArgs<number>>args[0].args;
+        expect(list.type).to.be(ListChangeType.Add);
+        expect(list.added).to.eql([1]);
+      });
+
+      it('should be emitted when an observable map is mutated', () => {
+        var args: IPropertyItemsChangedArgs[] = [];
+        var p = new Property<Model, ObservableMap<string, number>>({
+          observeItems: true,
+        });
+        var m = new Model();
+        var map = new ObservableMap<string, number>();
+        p.itemsChanged.connect(a => { args.push(a); });
+        p.set(m, map);
+        map.set('a', 1);
+        expect(args.length).to.be(1);
+        var change = <IMapChangedArgs<string, number>>args[0].args;
+        expect(change.type).to.be(MapChangeType.Add);
+        expect(change.key).to.be('a');
+      });
+
+      it('should follow the current value of the owner', () => {
+        var owners: IPropertyOwner[] = [];
+        var p = new Property<Model, ObservableList<number>>({
+          observeItems: true,
+        });
+        var m1 = new Model();
+        var m2 = new Model();
+        var list1 = new ObservableList<number>();
+        var list2 = new ObservableList<number>();
+        p.itemsChanged.connect(a => { owners.push(a.owner); });
+        p.set(m1, list1);
+        p.set(m2, list1);
+        list1.add(1);
+        expect(owners).to.eql([m1, m2]);
+        owners = [];
+        p.set(m1, list2);
+        list1.add(2);
+        list2.add(3);
+        expect(owners).to.eql([m2, m1]);
+        owners = [];
+        p.clear(m2);
+        list1.add(4);
+        expect(owners).to.eql([]);
+      });
+
+      it('should not be emitted if the option is not enabled', () => {
+        var called = false;
+        var p = new Property<Model, ObservableList<number>>({
+          create: () => new ObservableList<number>(),
+        });
+        var m = new Model();
+        p.itemsChanged.connect(() => { called = true; });
+        p.get(m).add(1);
+        expect(called).to.be(false);
+      });
+
+      it('should not emit the property changed signal', () => {
+        var called = false;
+        var p = new Property<Model, ObservableList<number>>({
+          create: () => new ObservableList<number>(),
+          observeItems: true,
+        });
+        var m = new Model();
+        p.get(m);
+        m.propertyChanged.connect(() => { called = true; });
+        p.get(m).add(1);
+        expect(called).to.be(false);
+      });
+
+    });
+
     describe('#get()', () => {
 
       it('should return the current value of the property', () => {
@@ -455,187 +1001,3658 @@ describe('phosphor-properties', () => {
         expect(called).to.be(false);
       });
 
-    });
-
-    describe('#coerce()', () => {
-
-      it('should coerce the current value of the property', () => {
-        var min = 20;
-        var max = 50;
-        var coerce = (m: Model, v: number) => Math.max(min, Math.min(v, max));
-        var p = new Property<Model, number>({ value: 0, coerce: coerce });
+      it('should invoke the validate function before the coerce function', () => {
+        var result: string[] = [];
+        var validate = (m: Model, v: number) => (result.push('v' + v), '');
+        var coerce = (m: Model, v: number) => (result.push('c' + v), v);
+        var p = new Property<Model, number>({ validate: validate, coerce: coerce });
         var m = new Model();
-        p.set(m, 10);
-        expect(p.get(m)).to.be(20);
-        min = 30;
-        p.coerce(m);
-        expect(p.get(m)).to.be(30);
-        min = 10;
-        max = 20;
-        p.coerce(m);
-        expect(p.get(m)).to.be(20);
+        p.set(m, 1);
+        expect(result).to.eql(['v1', 'c1']);
       });
 
-      it('should invoke the changed function if the value changes', () => {
-        var called = false;
-        var coerce = (m: Model, v: number) => Math.max(20, v);
-        var changed = () => { called = true };
-        var p = new Property<Model, number>({ value: 0, coerce: coerce, changed: changed });
+      it('should throw a `PropertyValidationError` for an invalid value', () => {
+        var validate = (m: Model, v: number) => v < 0 ? 'negative' : '';
+        var p = new Property<Model, number>({ name: 'count', validate: validate });
         var m = new Model();
-        p.coerce(m);
-        expect(called).to.be(true);
+        var error: PropertyValidationError = null;
+        try {
+          p.set(m, -1);
+        } catch (e) {
+          error = e;
+        }
+        expect(error instanceof PropertyValidationError).to.be(true);
+        expect(error instanceof Error).to.be(true);
+        expect(error.property).to.be(p);
+        expect(error.owner).to.be(m);
+        expect(error.reason).to.be('negative');
+        expect(error.message).to.contain('count');
+        expect(error.message).to.contain('negative');
       });
 
-      it('should emit the `propertyChanged` signal if the value changes', () => {
+      it('should not modify the value or notify for an invalid value', () => {
         var called = false;
-        var coerce = (m: Model, v: number) => Math.max(20, v);
-        var changed = () => { called = true };
-        var p = new Property<Model, number>({ value: 0, coerce: coerce });
+        var validate = (m: Model, v: number) => v < 0 ? 'negative' : '';
+        var changed = () => { called = true; };
+        var p = new Property<Model, number>({ value: 0, validate: validate, changed: changed });
         var m = new Model();
         m.propertyChanged.connect(changed);
-        p.coerce(m);
-        expect(called).to.be(true);
+        p.set(m, 1);
+        called = false;
+        expect(() => { p.set(m, -1); }).to.throwError();
+        expect(p.get(m)).to.be(1);
+        expect(p.getLayerValue(m, PropertyLayer.Local)).to.be(1);
+        expect(called).to.be(false);
       });
 
-      it('should invoke the changed function before the `propertyChanged` signal', () => {
-        var result: string[] = [];
-        var changed1 = () => { result.push('c1'); };
-        var changed2 = () => { result.push('c2'); };
-        var coerce = (m: Model, v: number) => Math.max(20, v);
-        var p = new Property<Model, number>({ value: 0, coerce: coerce, changed: changed1 });
+      it('should queue a nested change from a changed callback', () => {
+        var calls: number[][] = [];
+        var args: IPropertyChangedArgs[] = [];
+        var p = new Property<Model, number>({
+          value: 0,
+          changed: (owner, oldValue, newValue) => {
+            calls.push([oldValue, newValue]);
+            if (newValue === 1) {
+              p.set(owner, 2);
+              expect(p.get(owner)).to.be(2);
+            }
+          },
+        });
         var m = new Model();
-        m.propertyChanged.connect(changed2);
-        p.coerce(m);
-        expect(result).to.eql(['c1', 'c2']);
+        m.propertyChanged.connect(a => { args.push(a); });
+        p.set(m, 1);
+        expect(calls).to.eql([[0, 1], [1, 2]]);
+        expect(args.map(a => [a.oldValue, a.newValue])).to.eql([[0, 1], [1, 2]]);
       });
 
-      it('should use the default value as old value if value is not yet set', () => {
-        var oldval: number;
-        var newval: number;
-        var coerce = (m: Model, v: number) => Math.max(20, v);
-        var changed = (m: Model, o: number, n: number) => { oldval = o; newval = n; };
-        var p = new Property<Model, number>({ value: 0, coerce: coerce, changed: changed });
+      it('should queue a nested change from a signal handler', () => {
+        var args: IPropertyChangedArgs[] = [];
+        var p = new Property<Model, number>({ value: 0 });
         var m = new Model();
-        p.coerce(m);
-        expect(oldval).to.be(0);
-        expect(newval).to.be(20);
+        m.propertyChanged.connect(a => {
+          if (a.newValue < 3) p.set(m, a.newValue + 1);
+        });
+        m.propertyChanged.connect(a => { args.push(a); });
+        p.set(m, 1);
+        expect(p.get(m)).to.be(3);
+        expect(args.map(a => [a.oldValue, a.newValue])).to.eql([[0, 1], [1, 2], [2, 3]]);
       });
 
-      it('should use the default factory for old value if value is not yet set', () => {
-        var oldval: number;
-        var newval: number;
-        var create = () => 12;
-        var coerce = (m: Model, v: number) => Math.max(20, v);
-        var changed = (m: Model, o: number, n: number) => { oldval = o; newval = n; };
-        var p = new Property<Model, number>({ create: create, coerce: coerce, changed: changed });
+      it('should throw an error for an endless change loop', () => {
+        var p = new Property<Model, number>({
+          value: 0,
+          changed: (owner, oldValue, newValue) => { p.set(owner, newValue + 1); },
+        });
         var m = new Model();
-        p.coerce(m);
-        expect(oldval).to.be(12);
-        expect(newval).to.be(20);
+        expect(() => { p.set(m, 1); }).to.throwError(/Maximum change depth/);
+        var q = new Property<Model, number>({ value: 0 });
+        q.set(m, 1);
+        expect(q.get(m)).to.be(1);
       });
 
-      it('should prefer the default factory over default value', () => {
-        var oldval: number;
-        var newval: number;
-        var create = () => 12;
-        var coerce = (m: Model, v: number) => Math.max(20, v);
-        var changed = (m: Model, o: number, n: number) => { oldval = o; newval = n; };
-        var p = new Property<Model, number>({ value: 0, create: create, coerce: coerce, changed: changed });
+      it('should throw an error for an endless nested change loop', () => {
+        var p1: Property<Model, number> = new Property<Model, number>({
+          value: 0,
+          changed: (owner, oldValue, newValue) => { p2.set(owner, newValue + 1); },
+        });
+        var p2: Property<Model, number> = new Property<Model, number>({
+          value: 0,
+          changed: (owner, oldValue, newValue) => { p1.set(owner, newValue + 1); },
+        });
         var m = new Model();
-        p.coerce(m);
-        expect(oldval).to.be(12);
-        expect(newval).to.be(20);
+        expect(() => { p1.set(m, 1); }).to.throwError(/Maximum change depth/);
       });
 
-      it('should invoke the compare function to compare values', () => {
-        var called = false;
-        var compare = (v1: number, v2: number) => (called = true,  v1 === v2);
-        var p = new Property<Model, number>({ value: 1, compare: compare });
+    });
+
+    describe('#has()', () => {
+
+      it('should test whether the property has a stored value', () => {
+        var p = new Property<Model, number>({ value: 0 });
         var m = new Model();
-        p.coerce(m);
-        expect(called).to.be(true);
+        expect(p.has(m)).to.be(false);
+        p.set(m, 1);
+        expect(p.has(m)).to.be(true);
       });
 
-      it('should not invoke the changed function if the value does not change', () => {
-        var called = false;
-        var changed = () => { called = true; };
-        var p = new Property<Model, number>({ value: 1, changed: changed });
+      it('should be `true` for a materialized default value', () => {
+        var p = new Property<Model, number>({ value: 0 });
         var m = new Model();
-        p.coerce(m);
+        p.get(m);
+        expect(p.has(m)).to.be(true);
+      });
+
+      it('should be `false` for an inherited value', () => {
+        setInheritanceResolver(treeResolver);
+        var p = new Property<TreeModel, number>({ value: 0, inherits: true });
+        var m1 = new TreeModel();
+        var m2 = new TreeModel(m1);
+        p.set(m1, 1);
+        expect(p.get(m2)).to.be(1);
+        expect(p.has(m2)).to.be(false);
+        setInheritanceResolver(null);
+      });
+
+    });
+
+    describe('#clear()', () => {
+
+      it('should clear the stored value of the property', () => {
+        var p1 = new Property<Model, number>({ value: 0 });
+        var p2 = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        p1.set(m, 1);
+        p2.set(m, 2);
+        p1.setLayerValue(m, PropertyLayer.Style, 3);
+        p1.clear(m);
+        expect(p1.has(m)).to.be(false);
+        expect(p1.hasLayerValue(m, PropertyLayer.Style)).to.be(false);
+        expect(p1.hasLayerValue(m, PropertyLayer.Local)).to.be(false);
+        expect(p1.get(m)).to.be(0);
+        expect(p2.get(m)).to.be(2);
+      });
+
+      it('should not emit change notifications', () => {
+        var called = false;
+        var changed = () => { called = true; };
+        var p = new Property<Model, number>({ value: 0, changed: changed });
+        var m = new Model();
+        p.set(m, 1);
+        called = false;
+        m.propertyChanged.connect(changed);
+        p.clear(m);
         expect(called).to.be(false);
       });
 
-      it('should not emit the `propertyChanged` signal if the value does not change', () => {
+    });
+
+    describe('#reset()', () => {
+
+      it('should restore the default value of the property', () => {
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        p.set(m, 1);
+        p.setLayerValue(m, PropertyLayer.Style, 2);
+        p.reset(m);
+        expect(p.get(m)).to.be(0);
+        expect(p.hasLayerValue(m, PropertyLayer.Style)).to.be(false);
+        expect(p.hasLayerValue(m, PropertyLayer.Local)).to.be(false);
+      });
+
+      it('should run the change notifications if the value changes', () => {
+        var result: number[] = [];
+        var args: IPropertyChangedArgs[] = [];
+        var changed = (m: Model, o: number, n: number) => { result.push(o, n); };
+        var p = new Property<Model, number>({ value: 0, changed: changed });
+        var m = new Model();
+        p.set(m, 1);
+        m.propertyChanged.connect(a => { args.push(a); });
+        p.reset(m);
+        expect(result).to.eql([0, 1, 1, 0]);
+        expect(args.length).to.be(1);
+        expect(args[0].oldValue).to.be(1);
+        expect(args[0].newValue).to.be(0);
+      });
+
+      it('should not run the change notifications if the value does not change', () => {
         var called = false;
         var changed = () => { called = true; };
-        var p = new Property<Model, number>({ value: 1 });
+        var p = new Property<Model, number>({ value: 0, changed: changed });
         var m = new Model();
+        p.set(m, 0);
         m.propertyChanged.connect(changed);
-        p.coerce(m);
+        p.reset(m);
         expect(called).to.be(false);
       });
 
+      it('should be a no-op if the property has no stored value', () => {
+        var count = 0;
+        var p = new Property<Model, number[]>({ create: () => (count++, []) });
+        var m = new Model();
+        p.reset(m);
+        expect(count).to.be(0);
+      });
+
+      it('should restore the inherited value of the property', () => {
+        setInheritanceResolver(treeResolver);
+        var p = new Property<TreeModel, number>({ value: 0, inherits: true });
+        var m1 = new TreeModel();
+        var m2 = new TreeModel(m1);
+        p.set(m1, 1);
+        p.set(m2, 2);
+        p.reset(m2);
+        expect(p.get(m2)).to.be(1);
+        expect(p.has(m2)).to.be(false);
+        setInheritanceResolver(null);
+      });
+
     });
 
-  });
+    describe('#trySet()', () => {
 
-  describe('clearPropertyData()', () => {
+      it('should set the value if the value is valid', () => {
+        var validate = (m: Model, v: number) => v < 0 ? 'negative' : '';
+        var p = new Property<Model, number>({ value: 0, validate: validate });
+        var m = new Model();
+        var result = p.trySet(m, 1);
+        expect(result.success).to.be(true);
+        expect(result.error).to.be(null);
+        expect(p.get(m)).to.be(1);
+      });
 
-    it('should clear all property data for a property owner', () => {
-        var p1 = new Property<Model, number>({ value: 42 });
-        var p2 = new Property<Model, number>({ value: 42 });
-        var p3 = new Property<Model, number>({ value: 42 });
-        var m1 = new Model();
-        var m2 = new Model();
-        var m3 = new Model();
-        p1.set(m1, 1);
-        p1.set(m2, 2);
-        p1.set(m3, 3);
-        p2.set(m1, 4);
-        p2.set(m2, 5);
-        p2.set(m3, 6);
-        p3.set(m1, 7);
-        p3.set(m2, 8);
-        p3.set(m3, 9);
-        expect(p1.get(m1)).to.be(1);
-        expect(p1.get(m2)).to.be(2);
-        expect(p1.get(m3)).to.be(3);
-        expect(p2.get(m1)).to.be(4);
-        expect(p2.get(m2)).to.be(5);
-        expect(p2.get(m3)).to.be(6);
-        expect(p3.get(m1)).to.be(7);
-        expect(p3.get(m2)).to.be(8);
-        expect(p3.get(m3)).to.be(9);
-        clearPropertyData(m1);
-        expect(p1.get(m1)).to.be(42);
-        expect(p1.get(m2)).to.be(2);
-        expect(p1.get(m3)).to.be(3);
-        expect(p2.get(m1)).to.be(42);
-        expect(p2.get(m2)).to.be(5);
-        expect(p2.get(m3)).to.be(6);
-        expect(p3.get(m1)).to.be(42);
-        expect(p3.get(m2)).to.be(8);
-        expect(p3.get(m3)).to.be(9);
-        clearPropertyData(m2);
-        expect(p1.get(m1)).to.be(42);
-        expect(p1.get(m2)).to.be(42);
-        expect(p1.get(m3)).to.be(3);
-        expect(p2.get(m1)).to.be(42);
-        expect(p2.get(m2)).to.be(42);
-        expect(p2.get(m3)).to.be(6);
-        expect(p3.get(m1)).to.be(42);
-        expect(p3.get(m2)).to.be(42);
-        expect(p3.get(m3)).to.be(9);
-        clearPropertyData(m3);
-        expect(p1.get(m1)).to.be(42);
-        expect(p1.get(m2)).to.be(42);
-        expect(p1.get(m3)).to.be(42);
-        expect(p2.get(m1)).to.be(42);
-        expect(p2.get(m2)).to.be(42);
-        expect(p2.get(m3)).to.be(42);
-        expect(p3.get(m1)).to.be(42);
-        expect(p3.get(m2)).to.be(42);
-        expect(p3.get(m3)).to.be(42);
+      it('should return the error if the value is invalid', () => {
+        var validate = (m: Model, v: number) => v < 0 ? 'negative' : '';
+        var p = new Property<Model, number>({ value: 0, validate: validate });
+        var m = new Model();
+        var result = p.trySet(m, -1);
+        expect(result.success).to.be(false);
+        expect(result.error instanceof PropertyValidationError).to.be(true);
+        expect(result.error.reason).to.be('negative');
+        expect(p.get(m)).to.be(0);
+      });
+
+      it('should invoke the validate function only once', () => {
+        var count = 0;
+        var validate = (m: Model, v: number) => (count++, '');
+        var p = new Property<Model, number>({ value: 0, validate: validate });
+        var m = new Model();
+        p.trySet(m, 1);
+        expect(count).to.be(1);
+      });
+
+    });
+
+    describe('#getLayerValue()', () => {
+
+      it('should return the value of the given layer', () => {
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        p.setLayerValue(m, PropertyLayer.Style, 1);
+        p.set(m, 2);
+        expect(p.getLayerValue(m, PropertyLayer.Style)).to.be(1);
+        expect(p.getLayerValue(m, PropertyLayer.Local)).to.be(2);
+      });
+
+      it('should return `undefined` if the layer does not have a value', () => {
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        expect(p.getLayerValue(m, PropertyLayer.Style)).to.be(void 0);
+        p.set(m, 2);
+        expect(p.getLayerValue(m, PropertyLayer.Animation)).to.be(void 0);
+      });
+
+      it('should return the value before coercion', () => {
+        var coerce = (m: Model, v: number) => Math.max(0, v);
+        var p = new Property<Model, number>({ value: 0, coerce: coerce });
+        var m = new Model();
+        p.set(m, -10);
+        expect(p.get(m)).to.be(0);
+        expect(p.getLayerValue(m, PropertyLayer.Local)).to.be(-10);
+      });
+
+    });
+
+    describe('#hasLayerValue()', () => {
+
+      it('should test whether the layer has a value', () => {
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        expect(p.hasLayerValue(m, PropertyLayer.Local)).to.be(false);
+        p.set(m, void 0);
+        expect(p.hasLayerValue(m, PropertyLayer.Local)).to.be(true);
+        expect(p.hasLayerValue(m, PropertyLayer.Style)).to.be(false);
+      });
+
+    });
+
+    describe('#setLayerValue()', () => {
+
+      it('should use the layer with the highest precedence', () => {
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        p.setLayerValue(m, PropertyLayer.Style, 1);
+        expect(p.get(m)).to.be(1);
+        p.set(m, 2);
+        expect(p.get(m)).to.be(2);
+        p.setLayerValue(m, PropertyLayer.Animation, 3);
+        expect(p.get(m)).to.be(3);
+        p.set(m, 4);
+        expect(p.get(m)).to.be(3);
+        p.setLayerValue(m, PropertyLayer.Style, 5);
+        expect(p.get(m)).to.be(3);
+      });
+
+      it('should coerce the effective value', () => {
+        var coerce = (m: Model, v: number) => Math.max(0, v);
+        var p = new Property<Model, number>({ value: 0, coerce: coerce });
+        var m = new Model();
+        p.setLayerValue(m, PropertyLayer.Style, -1);
+        expect(p.get(m)).to.be(0);
+      });
+
+      it('should emit the `propertyChanged` signal if the effective value changes', () => {
+        var args: IPropertyChangedArgs[] = [];
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        m.propertyChanged.connect(a => { args.push(a); });
+        p.setLayerValue(m, PropertyLayer.Animation, 1);
+        p.setLayerValue(m, PropertyLayer.Style, 2);
+        p.set(m, 3);
+        expect(args.length).to.be(1);
+        expect(args[0].oldValue).to.be(0);
+        expect(args[0].newValue).to.be(1);
+      });
+
+      it('should throw a `PropertyValidationError` for an invalid value', () => {
+        var validate = (m: Model, v: number) => v < 0 ? 'negative' : '';
+        var p = new Property<Model, number>({ value: 0, validate: validate });
+        var m = new Model();
+        expect(() => {
+          p.setLayerValue(m, PropertyLayer.Style, -1);
+        }).to.throwException(e => {
+          expect(e instanceof PropertyValidationError).to.be(true);
+        });
+        expect(p.hasLayerValue(m, PropertyLayer.Style)).to.be(false);
+      });
+
+    });
+
+    describe('#clearLayerValue()', () => {
+
+      it('should fall back to the next highest layer', () => {
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        p.setLayerValue(m, PropertyLayer.Style, 1);
+        p.set(m, 2);
+        p.setLayerValue(m, PropertyLayer.Animation, 3);
+        p.clearLayerValue(m, PropertyLayer.Animation);
+        expect(p.get(m)).to.be(2);
+        p.clearLayerValue(m, PropertyLayer.Local);
+        expect(p.get(m)).to.be(1);
+        p.clearLayerValue(m, PropertyLayer.Style);
+        expect(p.get(m)).to.be(0);
+      });
+
+      it('should use the default factory when no layer has a value', () => {
+        var tick = 42;
+        var p = new Property<Model, number>({ create: () => tick++ });
+        var m = new Model();
+        p.set(m, 1);
+        p.clearLayerValue(m, PropertyLayer.Local);
+        expect(p.get(m)).to.be(43);
+      });
+
+      it('should use the inherited value when no layer has a value', () => {
+        setInheritanceResolver(treeResolver);
+        var p = new Property<TreeModel, number>({ value: 0, inherits: true });
+        var m1 = new TreeModel();
+        var m2 = new TreeModel(m1);
+        p.set(m1, 1);
+        p.set(m2, 2);
+        p.clearLayerValue(m2, PropertyLayer.Local);
+        expect(p.get(m2)).to.be(1);
+        p.set(m1, 3);
+        expect(p.get(m2)).to.be(3);
+        setInheritanceResolver(null);
+      });
+
+      it('should coerce the new effective value', () => {
+        var result: number[] = [];
+        var coerce = (m: Model, v: number) => (result.push(v), v);
+        var p = new Property<Model, number>({ value: 0, coerce: coerce });
+        var m = new Model();
+        p.setLayerValue(m, PropertyLayer.Style, 1);
+        p.set(m, 2);
+        result = [];
+        p.clearLayerValue(m, PropertyLayer.Local);
+        expect(result).to.eql([1]);
+      });
+
+      it('should emit the `propertyChanged` signal only if the effective value changes', () => {
+        var args: IPropertyChangedArgs[] = [];
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        p.setLayerValue(m, PropertyLayer.Style, 1);
+        p.set(m, 1);
+        p.setLayerValue(m, PropertyLayer.Animation, 2);
+        m.propertyChanged.connect(a => { args.push(a); });
+        p.clearLayerValue(m, PropertyLayer.Local);
+        expect(args.length).to.be(0);
+        p.clearLayerValue(m, PropertyLayer.Animation);
+        expect(args.length).to.be(1);
+        expect(args[0].oldValue).to.be(2);
+        expect(args[0].newValue).to.be(1);
+      });
+
+      it('should be a no-op if the layer does not have a value', () => {
+        var called = false;
+        var coerce = (m: Model, v: number) => (called = true, v);
+        var p = new Property<Model, number>({ value: 0, coerce: coerce });
+        var m = new Model();
+        p.clearLayerValue(m, PropertyLayer.Style);
+        expect(called).to.be(false);
+      });
+
+    });
+
+    describe('#override()', () => {
+
+      class Base extends Model { }
+
+      class Derived extends Base { }
+
+      class MoreDerived extends Derived { }
+
+      it('should override the default value for a subclass', () => {
+        var p = new Property<Model, number>({ value: 1 });
+        p.override(Derived, { value: 2 });
+        expect(p.get(new Base())).to.be(1);
+        expect(p.get(new Derived())).to.be(2);
+        expect(p.get(new MoreDerived())).to.be(2);
+      });
+
+      it('should use the most specific override', () => {
+        var p = new Property<Model, number>({ value: 1 });
+        p.override(Derived, { value: 2 });
+        p.override(MoreDerived, { value: 3 });
+        expect(p.get(new Derived())).to.be(2);
+        expect(p.get(new MoreDerived())).to.be(3);
+      });
+
+      it('should override the default factory for a subclass', () => {
+        var p = new Property<Model, number>({ create: () => 1 });
+        p.override(Derived, { create: () => 2 });
+        expect(p.get(new Base())).to.be(1);
+        expect(p.get(new Derived())).to.be(2);
+      });
+
+      it('should override the default value and factory as a unit', () => {
+        var p = new Property<Model, number>({ create: () => 1 });
+        p.override(Derived, { value: 2 });
+        expect(p.get(new Derived())).to.be(2);
+      });
+
+      it('should override the coerce function for a subclass', () => {
+        var p = new Property<Model, number>({
+          value: 0,
+          coerce: (owner, value) => Math.max(0, value),
+        });
+        p.override(Derived, { coerce: (owner, value) => Math.max(10, value) });
+        var b = new Base();
+        var d = new Derived();
+        p.set(b, 5);
+        p.set(d, 5);
+        expect(p.get(b)).to.be(5);
+        expect(p.get(d)).to.be(10);
+      });
+
+      it('should override the changed function for a subclass', () => {
+        var result: string[] = [];
+        var p = new Property<Model, number>({
+          value: 0,
+          changed: () => { result.push('base'); },
+        });
+        p.override(Derived, { changed: () => { result.push('derived'); } });
+        p.set(new Base(), 1);
+        p.set(new Derived(), 1);
+        expect(result).to.eql(['base', 'derived']);
+      });
+
+      it('should only override the provided options', () => {
+        var result: number[] = [];
+        var p = new Property<Model, number>({
+          value: 1,
+          coerce: (owner, value) => Math.max(0, value),
+          changed: (owner, oldValue, newValue) => { result.push(newValue); },
+        });
+        p.override(Derived, { value: 2 });
+        p.override(MoreDerived, { changed: () => { } });
+        var m = new MoreDerived();
+        expect(p.get(m)).to.be(2);
+        p.set(m, -1);
+        expect(p.get(m)).to.be(0);
+        expect(result).to.eql([]);
+      });
+
+      it('should throw an error if the type is already overridden', () => {
+        var p = new Property<Model, number>({ value: 1 });
+        p.override(Derived, { value: 2 });
+        expect(() => { p.override(Derived, { value: 3 }); }).to.throwError();
+      });
+
+    });
+
+    describe('#coerce()', () => {
+
+      it('should coerce the current value of the property', () => {
+        var min = 20;
+        var max = 50;
+        var coerce = (m: Model, v: number) => Math.max(min, Math.min(v, max));
+        var p = new Property<Model, number>({ value: 0, coerce: coerce });
+        var m = new Model();
+        p.set(m, 10);
+        expect(p.get(m)).to.be(20);
+        min = 30;
+        p.coerce(m);
+        expect(p.get(m)).to.be(30);
+        min = 0;
+        max = 20;
+        p.coerce(m);
+        expect(p.get(m)).to.be(10);
+      });
+
+      it('should invoke the changed function if the value changes', () => {
+        var called = false;
+        var coerce = (m: Model, v: number) => Math.max(20, v);
+        var changed = () => { called = true };
+        var p = new Property<Model, number>({ value: 0, coerce: coerce, changed: changed });
+        var m = new Model();
+        p.coerce(m);
+        expect(called).to.be(true);
+      });
+
+      it('should emit the `propertyChanged` signal if the value changes', () => {
+        var called = false;
+        var coerce = (m: Model, v: number) => Math.max(20, v);
+        var changed = () => { called = true };
+        var p = new Property<Model, number>({ value: 0, coerce: coerce });
+        var m = new Model();
+        m.propertyChanged.connect(changed);
+        p.coerce(m);
+        expect(called).to.be(true);
+      });
+
+      it('should invoke the changed function before the `propertyChanged` signal', () => {
+        var result: string[] = [];
+        var changed1 = () => { result.push('c1'); };
+        var changed2 = () => { result.push('c2'); };
+        var coerce = (m: Model, v: number) => Math.max(20, v);
+        var p = new Property<Model, number>({ value: 0, coerce: coerce, changed: changed1 });
+        var m = new Model();
+        m.propertyChanged.connect(changed2);
+        p.coerce(m);
+        expect(result).to.eql(['c1', 'c2']);
+      });
+
+      it('should use the default value as old value if value is not yet set', () => {
+        var oldval: number;
+        var newval: number;
+        var coerce = (m: Model, v: number) => Math.max(20, v);
+        var changed = (m: Model, o: number, n: number) => { oldval = o; newval = n; };
+        var p = new Property<Model, number>({ value: 0, coerce: coerce, changed: changed });
+        var m = new Model();
+        p.coerce(m);
+        expect(oldval).to.be(0);
+        expect(newval).to.be(20);
+      });
+
+      it('should use the default factory for old value if value is not yet set', () => {
+        var oldval: number;
+        var newval: number;
+        var create = () => 12;
+        var coerce = (m: Model, v: number) => Math.max(20, v);
+        var changed = (m: Model, o: number, n: number) => { oldval = o; newval = n; };
+        var p = new Property<Model, number>({ create: create, coerce: coerce, changed: changed });
+        var m = new Model();
+        p.coerce(m);
+        expect(oldval).to.be(12);
+        expect(newval).to.be(20);
+      });
+
+      it('should prefer the default factory over default value', () => {
+        var oldval: number;
+        var newval: number;
+        var create = () => 12;
+        var coerce = (m: Model, v: number) => Math.max(20, v);
+        var changed = (m: Model, o: number, n: number) => { oldval = o; newval = n; };
+        var p = new Property<Model, number>({ value: 0, create: create, coerce: coerce, changed: changed });
+        var m = new Model();
+        p.coerce(m);
+        expect(oldval).to.be(12);
+        expect(newval).to.be(20);
+      });
+
+      it('should invoke the compare function to compare values', () => {
+        var called = false;
+        var compare = (v1: number, v2: number) => (called = true,  v1 === v2);
+        var p = new Property<Model, number>({ value: 1, compare: compare });
+        var m = new Model();
+        p.coerce(m);
+        expect(called).to.be(true);
+      });
+
+      it('should not invoke the changed function if the value does not change', () => {
+        var called = false;
+        var changed = () => { called = true; };
+        var p = new Property<Model, number>({ value: 1, changed: changed });
+        var m = new Model();
+        p.coerce(m);
+        expect(called).to.be(false);
+      });
+
+      it('should not emit the `propertyChanged` signal if the value does not change', () => {
+        var called = false;
+        var changed = () => { called = true; };
+        var p = new Property<Model, number>({ value: 1 });
+        var m = new Model();
+        m.propertyChanged.connect(changed);
+        p.coerce(m);
+        expect(called).to.be(false);
+      });
+
+    });
+
+  });
+
+  describe('ComputedProperty', () => {
+
+    describe('#constructor()', () => {
+
+      it('should accept a single options argument', () => {
+        var p = new ComputedProperty<Model, number>({
+          name: 'p',
+          compute: (owner) => 42,
+          compare: (oldValue, newValue) => oldValue === newValue,
+          changed: (owner, oldValue, newValue) => { },
+        });
+        expect(p instanceof ComputedProperty).to.be(true);
+        expect(p instanceof Property).to.be(true);
+      });
+
+    });
+
+    describe('#get()', () => {
+
+      it('should return the computed value', () => {
+        var a = new Property<Model, number>({ value: 2 });
+        var b = new Property<Model, number>({ value: 3 });
+        var c = new ComputedProperty<Model, number>({
+          compute: owner => a.get(owner) * b.get(owner),
+        });
+        var m = new Model();
+        expect(c.get(m)).to.be(6);
+      });
+
+      it('should cache the computed value per owner', () => {
+        var count = 0;
+        var a = new Property<Model, number>({ value: 2 });
+        var c = new ComputedProperty<Model, number>({
+          compute: owner => (count++, a.get(owner) * 2),
+        });
+        var m1 = new Model();
+        var m2 = new Model();
+        a.set(m2, 3);
+        expect(c.get(m1)).to.be(4);
+        expect(c.get(m1)).to.be(4);
+        expect(c.get(m2)).to.be(6);
+        expect(c.get(m2)).to.be(6);
+        expect(count).to.be(2);
+      });
+
+      it('should recompute the value when a dependency changes', () => {
+        var a = new Property<Model, number>({ value: 2 });
+        var b = new Property<Model, number>({ value: 3 });
+        var c = new ComputedProperty<Model, number>({
+          compute: owner => a.get(owner) * b.get(owner),
+        });
+        var m = new Model();
+        expect(c.get(m)).to.be(6);
+        a.set(m, 4);
+        expect(c.get(m)).to.be(12);
+        b.set(m, 5);
+        expect(c.get(m)).to.be(20);
+      });
+
+      it('should not cache a value if the computation throws', () => {
+        var fail = true;
+        var a = new Property<Model, number>({ value: 2 });
+        var c = new ComputedProperty<Model, number>({
+          compute: owner => {
+            if (fail) throw new Error('failed');
+            return a.get(owner) * 2;
+          },
+        });
+        var m = new Model();
+        expect(() => { c.get(m); }).to.throwError(/failed/);
+        expect(c.has(m)).to.be(false);
+        fail = false;
+        expect(c.get(m)).to.be(4);
+        a.set(m, 3);
+        expect(c.get(m)).to.be(6);
+      });
+
+      it('should not recompute the value when an unrelated property changes', () => {
+        var count = 0;
+        var a = new Property<Model, number>({ value: 2 });
+        var b = new Property<Model, number>({ value: 3 });
+        var c = new ComputedProperty<Model, number>({
+          compute: owner => (count++, a.get(owner)),
+        });
+        var m = new Model();
+        c.get(m);
+        b.set(m, 4);
+        expect(count).to.be(1);
+      });
+
+      it('should track dependencies on other owners', () => {
+        var a = new Property<Model, number>({ value: 2 });
+        var source = new Model();
+        var c = new ComputedProperty<Model, number>({
+          compute: owner => a.get(source) + 1,
+        });
+        var m = new Model();
+        expect(c.get(m)).to.be(3);
+        a.set(source, 10);
+        expect(c.get(m)).to.be(11);
+      });
+
+      it('should track conditional dependencies', () => {
+        var count = 0;
+        var flag = new Property<Model, boolean>({ value: true });
+        var a = new Property<Model, number>({ value: 1 });
+        var b = new Property<Model, number>({ value: 2 });
+        var c = new ComputedProperty<Model, number>({
+          compute: owner => (count++, flag.get(owner) ? a.get(owner) : b.get(owner)),
+        });
+        var m = new Model();
+        expect(c.get(m)).to.be(1);
+        b.set(m, 3);
+        expect(count).to.be(1);
+        flag.set(m, false);
+        expect(c.get(m)).to.be(3);
+        count = 0;
+        a.set(m, 4);
+        expect(count).to.be(0);
+        b.set(m, 5);
+        expect(c.get(m)).to.be(5);
+      });
+
+      it('should support computed properties as dependencies', () => {
+        var a = new Property<Model, number>({ value: 2 });
+        var b = new ComputedProperty<Model, number>({
+          compute: owner => a.get(owner) * 2,
+        });
+        var c = new ComputedProperty<Model, number>({
+          compute: owner => b.get(owner) + 1,
+        });
+        var m = new Model();
+        expect(c.get(m)).to.be(5);
+        a.set(m, 3);
+        expect(c.get(m)).to.be(7);
+      });
+
+      it('should emit the `propertyChanged` signal if the value changes', () => {
+        var args: IPropertyChangedArgs[] = [];
+        var a = new Property<Model, number>({ value: 2 });
+        var c = new ComputedProperty<Model, number>({
+          compute: owner => a.get(owner) * 2,
+        });
+        var m = new Model();
+        c.get(m);
+        m.propertyChanged.connect(x => { args.push(x); });
+        a.set(m, 3);
+        args = args.filter(x => x.property === c);
+        expect(args.length).to.be(1);
+        expect(args[0].oldValue).to.be(4);
+        expect(args[0].newValue).to.be(6);
+      });
+
+      it('should not emit the `propertyChanged` signal if the value does not change', () => {
+        var args: IPropertyChangedArgs[] = [];
+        var a = new Property<Model, number>({ value: 2 });
+        var c = new ComputedProperty<Model, boolean>({
+          compute: owner => a.get(owner) > 0,
+        });
+        var m = new Model();
+        c.get(m);
+        m.propertyChanged.connect(x => { args.push(x); });
+        a.set(m, 3);
+        expect(args.length).to.be(1);
+        expect(args[0].property).to.be(a);
+      });
+
+      it('should invoke the changed function if the value changes', () => {
+        var result: number[] = [];
+        var a = new Property<Model, number>({ value: 2 });
+        var c = new ComputedProperty<Model, number>({
+          compute: owner => a.get(owner) * 2,
+          changed: (owner, oldValue, newValue) => { result.push(oldValue, newValue); },
+        });
+        var m = new Model();
+        c.get(m);
+        expect(result).to.eql([]);
+        a.set(m, 3);
+        expect(result).to.eql([4, 6]);
+      });
+
+    });
+
+    describe('#set()', () => {
+
+      it('should throw an error', () => {
+        var c = new ComputedProperty<Model, number>({ compute: owner => 1 });
+        var m = new Model();
+        expect(() => { c.set(m, 2); }).to.throwError();
+        expect(() => { c.setLayerValue(m, PropertyLayer.Style, 2); }).to.throwError();
+        expect(c.get(m)).to.be(1);
+      });
+
+    });
+
+    describe('#trySet()', () => {
+
+      it('should return an unsuccessful result', () => {
+        var c = new ComputedProperty<Model, number>({ compute: owner => 1 });
+        var m = new Model();
+        var result = c.trySet(m, 2);
+        expect(result.success).to.be(false);
+        expect(result.error).to.be(null);
+        expect(c.get(m)).to.be(1);
+      });
+
+    });
+
+    describe('#has()', () => {
+
+      it('should test whether the value is cached', () => {
+        var c = new ComputedProperty<Model, number>({ compute: o => 1 });
+        var m = new Model();
+        expect(c.has(m)).to.be(false);
+        c.get(m);
+        expect(c.has(m)).to.be(true);
+      });
+
+    });
+
+    describe('#clear()', () => {
+
+      it('should clear the cached value and dependencies', () => {
+        var count = 0;
+        var p = new Property<Model, number>({ value: 1 });
+        var c = new ComputedProperty<Model, number>({
+          compute: o => (count++, p.get(o)),
+        });
+        var m = new Model();
+        var args: IPropertyChangedArgs[] = [];
+        m.propertyChanged.connect(a => { args.push(a); });
+        c.get(m);
+        c.clear(m);
+        expect(c.has(m)).to.be(false);
+        p.set(m, 2);
+        expect(count).to.be(1);
+        expect(args.length).to.be(1);
+        expect(args[0].property).to.be(p);
+        expect(c.get(m)).to.be(2);
+        expect(count).to.be(2);
+      });
+
+    });
+
+    describe('#coerce()', () => {
+
+      it('should recompute the value', () => {
+        var factor = 2;
+        var args: IPropertyChangedArgs[] = [];
+        var a = new Property<Model, number>({ value: 2 });
+        var c = new ComputedProperty<Model, number>({
+          compute: owner => a.get(owner) * factor,
+        });
+        var m = new Model();
+        expect(c.get(m)).to.be(4);
+        m.propertyChanged.connect(x => { args.push(x); });
+        factor = 3;
+        c.coerce(m);
+        expect(c.get(m)).to.be(6);
+        expect(args.length).to.be(1);
+        expect(args[0].oldValue).to.be(4);
+      });
+
+    });
+
+  });
+
+  describe('ReadOnlyProperty', () => {
+
+    var key = {};
+
+    describe('#constructor()', () => {
+
+      it('should accept a single options argument', () => {
+        var p = new ReadOnlyProperty<Model, number>({ key: key, value: 0 });
+        expect(p instanceof ReadOnlyProperty).to.be(true);
+        expect(p instanceof Property).to.be(true);
+      });
+
+      it('should throw an error if a key is not provided', () => {
+        expect(() => {
+          new ReadOnlyProperty<Model, number>({ key: null, value: 0 });
+        }).to.throwError();
+      });
+
+    });
+
+    describe('#get()', () => {
+
+      it('should not require the key', () => {
+        var p = new ReadOnlyProperty<Model, number>({ key: key, value: 42 });
+        var m = new Model();
+        expect(p.get(m)).to.be(42);
+      });
+
+    });
+
+    describe('#set()', () => {
+
+      it('should set the value with the key', () => {
+        var p = new ReadOnlyProperty<Model, number>({ key: key, value: 0 });
+        var m = new Model();
+        p.set(m, 1, key);
+        expect(p.get(m)).to.be(1);
+      });
+
+      it('should throw an error without the key', () => {
+        var p = new ReadOnlyProperty<Model, number>({ name: 'size', key: key, value: 0 });
+        var m = new Model();
+        expect(() => { p.set(m, 1); }).to.throwException(e => {
+          expect(e.message).to.contain('size');
+        });
+        expect(() => { p.set(m, 1, {}); }).to.throwError();
+        expect(p.get(m)).to.be(0);
+      });
+
+      it('should emit the `propertyChanged` signal', () => {
+        var args: IPropertyChangedArgs[] = [];
+        var p = new ReadOnlyProperty<Model, number>({ key: key, value: 0 });
+        var m = new Model();
+        m.propertyChanged.connect(a => { args.push(a); });
+        p.set(m, 1, key);
+        expect(args.length).to.be(1);
+        expect(args[0].property).to.be(p);
+        expect(args[0].oldValue).to.be(0);
+        expect(args[0].newValue).to.be(1);
+      });
+
+    });
+
+    describe('#trySet()', () => {
+
+      it('should require the key', () => {
+        var p = new ReadOnlyProperty<Model, number>({ key: key, value: 0 });
+        var m = new Model();
+        expect(() => { p.trySet(m, 1); }).to.throwError();
+        expect(p.trySet(m, 1, key).success).to.be(true);
+        expect(p.get(m)).to.be(1);
+      });
+
+    });
+
+    describe('#setLayerValue()', () => {
+
+      it('should require the key', () => {
+        var p = new ReadOnlyProperty<Model, number>({ key: key, value: 0 });
+        var m = new Model();
+        expect(() => { p.setLayerValue(m, PropertyLayer.Style, 1); }).to.throwError();
+        p.setLayerValue(m, PropertyLayer.Style, 1, key);
+        expect(p.get(m)).to.be(1);
+      });
+
+    });
+
+    describe('#clearLayerValue()', () => {
+
+      it('should require the key', () => {
+        var p = new ReadOnlyProperty<Model, number>({ key: key, value: 0 });
+        var m = new Model();
+        p.set(m, 1, key);
+        expect(() => { p.clearLayerValue(m, PropertyLayer.Local); }).to.throwError();
+        p.clearLayerValue(m, PropertyLayer.Local, key);
+        expect(p.get(m)).to.be(0);
+      });
+
+    });
+
+    describe('#coerce()', () => {
+
+      it('should require the key', () => {
+        var p = new ReadOnlyProperty<Model, number>({
+          key: key,
+          value: 0,
+          coerce: (owner, value) => Math.max(10, value),
+        });
+        var m = new Model();
+        expect(() => { p.coerce(m); }).to.throwError();
+        p.coerce(m, key);
+        expect(p.get(m)).to.be(10);
+      });
+
+    });
+
+    describe('#clear()', () => {
+
+      it('should require the key', () => {
+        var p = new ReadOnlyProperty<Model, number>({ key: key, value: 0 });
+        var m = new Model();
+        p.set(m, 1, key);
+        expect(() => { p.clear(m); }).to.throwError();
+        p.clear(m, key);
+        expect(p.has(m)).to.be(false);
+      });
+
+    });
+
+    describe('#reset()', () => {
+
+      it('should require the key', () => {
+        var p = new ReadOnlyProperty<Model, number>({ key: key, value: 0 });
+        var m = new Model();
+        p.set(m, 1, key);
+        expect(() => { p.reset(m); }).to.throwError();
+        p.reset(m, key);
+        expect(p.get(m)).to.be(0);
+      });
+
+    });
+
+  });
+
+  describe('PropertyHistory', () => {
+
+    describe('#constructor()', () => {
+
+      it('should accept zero arguments', () => {
+        var h = new PropertyHistory();
+        expect(h instanceof PropertyHistory).to.be(true);
+        expect(h.maxDepth).to.be(Infinity);
+      });
+
+      it('should accept a single options argument', () => {
+        var h = new PropertyHistory({ maxDepth: 10 });
+        expect(h.maxDepth).to.be(10);
+      });
+
+      it('should throw an error for an invalid depth', () => {
+        expect(() => { new PropertyHistory({ maxDepth: -1 }); }).to.throwError();
+        expect(() => { new PropertyHistory({ maxDepth: NaN }); }).to.throwError();
+      });
+
+    });
+
+    describe('#stateChanged', () => {
+
+      it('should be emitted when the undo or redo availability changes', () => {
+        var states: boolean[][] = [];
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        var h = new PropertyHistory();
+        h.attach(m);
+        h.stateChanged.connect(() => { states.push([h.canUndo, h.canRedo]); });
+        p.set(m, 1);
+        p.set(m, 2);
+        h.undo();
+        h.undo();
+        h.redo();
+        h.redo();
+        expect(states).to.eql([
+          [true, false],
+          [true, true],
+          [false, true],
+          [true, true],
+          [true, false],
+        ]);
+      });
+
+    });
+
+    describe('#canUndo', () => {
+
+      it('should be `true` if there is a step to undo', () => {
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        var h = new PropertyHistory();
+        h.attach(m);
+        expect(h.canUndo).to.be(false);
+        p.set(m, 1);
+        expect(h.canUndo).to.be(true);
+        h.undo();
+        expect(h.canUndo).to.be(false);
+      });
+
+    });
+
+    describe('#canRedo', () => {
+
+      it('should be `true` if there is a step to redo', () => {
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        var h = new PropertyHistory();
+        h.attach(m);
+        p.set(m, 1);
+        expect(h.canRedo).to.be(false);
+        h.undo();
+        expect(h.canRedo).to.be(true);
+        h.redo();
+        expect(h.canRedo).to.be(false);
+      });
+
+    });
+
+    describe('#attach()', () => {
+
+      it('should record the changes for the owner', () => {
+        var p = new Property<Model, number>({ value: 0 });
+        var m1 = new Model();
+        var m2 = new Model();
+        var h = new PropertyHistory();
+        h.attach(m1);
+        p.set(m2, 1);
+        expect(h.canUndo).to.be(false);
+        p.set(m1, 1);
+        expect(h.canUndo).to.be(true);
+      });
+
+      it('should not record changes to computed properties', () => {
+        var p = new Property<Model, number>({ value: 0 });
+        var c = new ComputedProperty<Model, number>({ compute: o => p.get(o) * 2 });
+        var m = new Model();
+        var h = new PropertyHistory();
+        c.get(m);
+        h.attach(m);
+        p.set(m, 1);
+        h.undo();
+        expect(h.canUndo).to.be(false);
+        expect(c.get(m)).to.be(0);
+      });
+
+      it('should not record changes to read-only properties', () => {
+        var key = {};
+        var p = new ReadOnlyProperty<Model, number>({ key: key, value: 0 });
+        var m = new Model();
+        var h = new PropertyHistory();
+        h.attach(m);
+        p.set(m, 1, key);
+        expect(h.canUndo).to.be(false);
+      });
+
+    });
+
+    describe('#detach()', () => {
+
+
+      it('should stop recording the changes for the owner', () => {
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        var h = new PropertyHistory();
+        h.attach(m);
+        p.set(m, 1);
+        h.detach(m);
+        p.set(m, 2);
+        h.undo();
+        expect(p.get(m)).to.be(0);
+        expect(h.canUndo).to.be(false);
+      });
+
+    });
+
+    describe('#undo()', () => {
+
+      it('should revert the most recent change', () => {
+        var p1 = new Property<Model, number>({ value: 0 });
+        var p2 = new Property<Model, string>({ value: '' });
+        var m = new Model();
+        var h = new PropertyHistory();
+        h.attach(m);
+        p1.set(m, 1);
+        p2.set(m, 'a');
+        p1.set(m, 2);
+        h.undo();
+        expect(p1.get(m)).to.be(1);
+        expect(p2.get(m)).to.be('a');
+        h.undo();
+        expect(p2.get(m)).to.be('');
+        h.undo();
+        expect(p1.get(m)).to.be(0);
+      });
+
+      it('should not give inheriting owners a local value', () => {
+        setInheritanceResolver(treeResolver);
+        try {
+          var p = new Property<TreeModel, number>({ value: 0, inherits: true });
+          var m1 = new TreeModel();
+          var m2 = new TreeModel(m1);
+          var h = new PropertyHistory();
+          h.attach(m1);
+          h.attach(m2);
+          p.set(m1, 1);
+          expect(p.get(m2)).to.be(1);
+          h.undo();
+          expect(p.get(m1)).to.be(0);
+          expect(p.get(m2)).to.be(0);
+          expect(p.has(m2)).to.be(false);
+          p.set(m1, 2);
+          expect(p.get(m2)).to.be(2);
+        } finally {
+          setInheritanceResolver(null);
+        }
+      });
+
+      it('should revert a reset of an inheriting owner', () => {
+        setInheritanceResolver(treeResolver);
+        try {
+          var p = new Property<TreeModel, string>({ value: '', inherits: true });
+          var m1 = new TreeModel();
+          var m2 = new TreeModel(m1);
+          p.set(m1, 'r');
+          p.set(m2, 'c');
+          var h = new PropertyHistory();
+          h.attach(m2);
+          p.reset(m2);
+          expect(p.get(m2)).to.be('r');
+          expect(h.canUndo).to.be(true);
+          h.undo();
+          expect(p.get(m2)).to.be('c');
+        } finally {
+          setInheritanceResolver(null);
+        }
+      });
+
+      it('should revert clearing a layer of an inheriting owner', () => {
+        setInheritanceResolver(treeResolver);
+        try {
+          var p = new Property<TreeModel, string>({ value: '', inherits: true });
+          var m1 = new TreeModel();
+          var m2 = new TreeModel(m1);
+          p.set(m1, 'r');
+          p.set(m2, 'c');
+          var h = new PropertyHistory();
+          h.attach(m2);
+          p.clearLayerValue(m2, PropertyLayer.Local);
+          expect(p.get(m2)).to.be('r');
+          expect(h.canUndo).to.be(true);
+          h.undo();
+          expect(p.get(m2)).to.be('c');
+        } finally {
+          setInheritanceResolver(null);
+        }
+      });
+
+      it('should not record an undo whose notification is batched', () => {
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        var h = new PropertyHistory();
+        h.attach(m);
+        p.set(m, 1);
+        batchPropertyChanges(m, () => { h.undo(); });
+        expect(p.get(m)).to.be(0);
+        expect(h.canUndo).to.be(false);
+        expect(h.canRedo).to.be(true);
+        batchPropertyChanges(m, () => { h.redo(); });
+        expect(p.get(m)).to.be(1);
+        expect(h.canUndo).to.be(true);
+        expect(h.canRedo).to.be(false);
+        p.set(m, 2);
+        h.undo();
+        expect(p.get(m)).to.be(1);
+      });
+
+      it('should not record the undo as a new change', () => {
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        var h = new PropertyHistory();
+        h.attach(m);
+        p.set(m, 1);
+        h.undo();
+        expect(h.canUndo).to.be(false);
+        expect(h.canRedo).to.be(true);
+      });
+
+      it('should be a no-op if there is nothing to undo', () => {
+        var h = new PropertyHistory();
+        h.undo();
+        expect(h.canUndo).to.be(false);
+        expect(h.canRedo).to.be(false);
+      });
+
+    });
+
+    describe('#redo()', () => {
+
+      it('should reapply the most recently undone change', () => {
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        var h = new PropertyHistory();
+        h.attach(m);
+        p.set(m, 1);
+        p.set(m, 2);
+        h.undo();
+        h.undo();
+        h.redo();
+        expect(p.get(m)).to.be(1);
+        h.redo();
+        expect(p.get(m)).to.be(2);
+        expect(h.canRedo).to.be(false);
+      });
+
+      it('should be discarded by a new change', () => {
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        var h = new PropertyHistory();
+        h.attach(m);
+        p.set(m, 1);
+        h.undo();
+        p.set(m, 2);
+        expect(h.canRedo).to.be(false);
+        h.undo();
+        expect(p.get(m)).to.be(0);
+      });
+
+    });
+
+    describe('#group()', () => {
+
+      it('should record the changes as a single step', () => {
+        var p1 = new Property<Model, number>({ value: 0 });
+        var p2 = new Property<Model, number>({ value: 0 });
+        var m1 = new Model();
+        var m2 = new Model();
+        var h = new PropertyHistory();
+        h.attach(m1);
+        h.attach(m2);
+        h.group(() => {
+          p1.set(m1, 1);
+          p2.set(m2, 2);
+          p1.set(m1, 3);
+        });
+        h.undo();
+        expect(p1.get(m1)).to.be(0);
+        expect(p2.get(m2)).to.be(0);
+        expect(h.canUndo).to.be(false);
+        h.redo();
+        expect(p1.get(m1)).to.be(3);
+        expect(p2.get(m2)).to.be(2);
+      });
+
+      it('should support nested groups', () => {
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        var h = new PropertyHistory();
+        h.attach(m);
+        h.group(() => {
+          p.set(m, 1);
+          h.group(() => { p.set(m, 2); });
+          expect(h.canUndo).to.be(false);
+        });
+        expect(h.canUndo).to.be(true);
+        h.undo();
+        expect(p.get(m)).to.be(0);
+      });
+
+      it('should not record an empty step', () => {
+        var h = new PropertyHistory();
+        h.group(() => { });
+        expect(h.canUndo).to.be(false);
+      });
+
+    });
+
+    describe('#maxDepth', () => {
+
+      it('should limit the number of undo steps', () => {
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        var h = new PropertyHistory({ maxDepth: 2 });
+        h.attach(m);
+        p.set(m, 1);
+        p.set(m, 2);
+        p.set(m, 3);
+        h.undo();
+        h.undo();
+        expect(h.canUndo).to.be(false);
+        expect(p.get(m)).to.be(1);
+      });
+
+    });
+
+    describe('#clear()', () => {
+
+      it('should discard all of the steps', () => {
+        var p = new Property<Model, number>({ value: 0 });
+        var m = new Model();
+        var h = new PropertyHistory();
+        h.attach(m);
+        p.set(m, 1);
+        p.set(m, 2);
+        h.undo();
+        h.clear();
+        expect(h.canUndo).to.be(false);
+        expect(h.canRedo).to.be(false);
+      });
+
+    });
+
+  });
+
+  describe('property()', () => {
+
+    class Decorated implements IPropertyOwner {
+
+      static valueProperty: Property<Decorated, number>;
+
+      static labelProperty: Property<Decorated, string>;
+
+      @defineSignal
+      propertyChanged: ISignal<IPropertyChangedArgs>;
+
+      @property<Decorated, number>({
+        value: 42,
+        coerce: (owner, value) => Math.max(0, value),
+      })
+      value: number;
+
+      @property<Decorated, string>({ name: 'text', value: '' })
+      label: string;
+    }
+
+    it('should create the property descriptor as a static member', () => {
+      expect(Decorated.valueProperty instanceof Property).to.be(true);
+      expect(Decorated.labelProperty instanceof Property).to.be(true);
+    });
+
+    it('should name the property after the member by default', () => {
+      expect(Decorated.valueProperty.name).to.be('value');
+      expect(Decorated.labelProperty.name).to.be('text');
+    });
+
+    it('should register the property with the decorated class', () => {
+      expect(Decorated.valueProperty.ownerType).to.be(Decorated);
+      expect(findProperty(Decorated, 'value')).to.be(Decorated.valueProperty);
+    });
+
+    it('should install a getter which delegates to the property', () => {
+      var d = new Decorated();
+      expect(d.value).to.be(42);
+      Decorated.valueProperty.set(d, 10);
+      expect(d.value).to.be(10);
+    });
+
+    it('should install a setter which delegates to the property', () => {
+      var d = new Decorated();
+      d.value = -10;
+      expect(Decorated.valueProperty.get(d)).to.be(0);
+      d.label = 'foo';
+      expect(Decorated.labelProperty.get(d)).to.be('foo');
+    });
+
+    it('should emit the `propertyChanged` signal', () => {
+      var args: IPropertyChangedArgs[] = [];
+      var d = new Decorated();
+      d.propertyChanged.connect(a => { args.push(a); });
+      d.value = 7;
+      expect(args.length).to.be(1);
+      expect(args[0].property).to.be(Decorated.valueProperty);
+      expect(args[0].oldValue).to.be(42);
+      expect(args[0].newValue).to.be(7);
+    });
+
+    it('should keep the values separate for each instance', () => {
+      var d1 = new Decorated();
+      var d2 = new Decorated();
+      d1.value = 1;
+      d2.value = 2;
+      expect(d1.value).to.be(1);
+      expect(d2.value).to.be(2);
+    });
+
+  });
+
+  describe('getPropertyChangedSignal()', () => {
+
+    class Plain { }
+
+    it('should return the signal of an owner which has one', () => {
+      var args: IPropertyChangedArgs[] = [];
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      getPropertyChangedSignal(m).connect(a => { args.push(a); });
+      p.set(m, 1);
+      expect(args.length).to.be(1);
+      var sender: any = null;
+      m.propertyChanged.connect(() => { sender = emitter(); });
+      p.set(m, 2);
+      expect(sender).to.be(m);
+    });
+
+    it('should return a managed signal for an owner without one', () => {
+      var args: IPropertyChangedArgs[] = [];
+      var p = new Property<Plain, number>({ value: 0 });
+      var m = new Plain();
+      getPropertyChangedSignal(m).connect(a => { args.push(a); });
+      p.set(m, 1);
+      expect(p.get(m)).to.be(1);
+      expect(args.length).to.be(1);
+      expect(args[0].property).to.be(p);
+      expect(args[0].newValue).to.be(1);
+    });
+
+    it('should manage a separate signal for each owner', () => {
+      var count = 0;
+      var p = new Property<Plain, number>({ value: 0 });
+      var m1 = new Plain();
+      var m2 = new Plain();
+      getPropertyChangedSignal(m1).connect(() => { count++; });
+      p.set(m2, 1);
+      expect(count).to.be(0);
+      p.set(m1, 1);
+      expect(count).to.be(1);
+    });
+
+    it('should allow a plain owner to set values without listeners', () => {
+      var p = new Property<Plain, number>({ value: 0 });
+      var m = new Plain();
+      p.set(m, 1);
+      expect(p.get(m)).to.be(1);
+    });
+
+    it('should support computed properties of a plain owner', () => {
+      var p1 = new Property<Plain, number>({ value: 1 });
+      var p2 = new ComputedProperty<Plain, number>({
+        compute: owner => p1.get(owner) * 2,
+      });
+      var m = new Plain();
+      expect(p2.get(m)).to.be(2);
+      p1.set(m, 2);
+      expect(p2.get(m)).to.be(4);
+    });
+
+    it('should support the history of a plain owner', () => {
+      var p = new Property<Plain, number>({ value: 0 });
+      var m = new Plain();
+      var history = new PropertyHistory();
+      history.attach(m);
+      p.set(m, 1);
+      history.undo();
+      expect(p.get(m)).to.be(0);
+      history.redo();
+      expect(p.get(m)).to.be(1);
+      history.detach(m);
+    });
+
+    it('should support bindings between plain owners', () => {
+      var p = new Property<Plain, number>({ value: 0 });
+      var m1 = new Plain();
+      var m2 = new Plain();
+      var binding = bind(m1, p, m2, p, { mode: BindingMode.TwoWay });
+      p.set(m1, 1);
+      expect(p.get(m2)).to.be(1);
+      p.set(m2, 2);
+      expect(p.get(m1)).to.be(2);
+      binding.dispose();
+    });
+
+  });
+
+  describe('clearPropertyData()', () => {
+
+    it('should stop observing the collection values', () => {
+      var count = 0;
+      var p = new Property<Model, ObservableList<number>>({
+        create: () => new ObservableList<number>(),
+        observeItems: true,
+      });
+      var m = new Model();
+      var list = p.get(m);
+      p.itemsChanged.connect(() => { count++; });
+      list.add(1);
+      clearPropertyData(m);
+      list.add(2);
+      expect(count).to.be(1);
+    });
+
+    it('should clear all property data for a property owner', () => {
+        var p1 = new Property<Model, number>({ value: 42 });
+        var p2 = new Property<Model, number>({ value: 42 });
+        var p3 = new Property<Model, number>({ value: 42 });
+        var m1 = new Model();
+        var m2 = new Model();
+        var m3 = new Model();
+        p1.set(m1, 1);
+        p1.set(m2, 2);
+        p1.set(m3, 3);
+        p2.set(m1, 4);
+        p2.set(m2, 5);
+        p2.set(m3, 6);
+        p3.set(m1, 7);
+        p3.set(m2, 8);
+        p3.set(m3, 9);
+        expect(p1.get(m1)).to.be(1);
+        expect(p1.get(m2)).to.be(2);
+        expect(p1.get(m3)).to.be(3);
+        expect(p2.get(m1)).to.be(4);
+        expect(p2.get(m2)).to.be(5);
+        expect(p2.get(m3)).to.be(6);
+        expect(p3.get(m1)).to.be(7);
+        expect(p3.get(m2)).to.be(8);
+        expect(p3.get(m3)).to.be(9);
+        clearPropertyData(m1);
+        expect(p1.get(m1)).to.be(42);
+        expect(p1.get(m2)).to.be(2);
+        expect(p1.get(m3)).to.be(3);
+        expect(p2.get(m1)).to.be(42);
+        expect(p2.get(m2)).to.be(5);
+        expect(p2.get(m3)).to.be(6);
+        expect(p3.get(m1)).to.be(42);
+        expect(p3.get(m2)).to.be(8);
+        expect(p3.get(m3)).to.be(9);
+        clearPropertyData(m2);
+        expect(p1.get(m1)).to.be(42);
+        expect(p1.get(m2)).to.be(42);
+        expect(p1.get(m3)).to.be(3);
+        expect(p2.get(m1)).to.be(42);
+        expect(p2.get(m2)).to.be(42);
+        expect(p2.get(m3)).to.be(6);
+        expect(p3.get(m1)).to.be(42);
+        expect(p3.get(m2)).to.be(42);
+        expect(p3.get(m3)).to.be(9);
+        clearPropertyData(m3);
+        expect(p1.get(m1)).to.be(42);
+        expect(p1.get(m2)).to.be(42);
+        expect(p1.get(m3)).to.be(42);
+        expect(p2.get(m1)).to.be(42);
+        expect(p2.get(m2)).to.be(42);
+        expect(p2.get(m3)).to.be(42);
+        expect(p3.get(m1)).to.be(42);
+        expect(p3.get(m2)).to.be(42);
+        expect(p3.get(m3)).to.be(42);
+    });
+
+    it('should not emit notifications by default', () => {
+      var called = false;
+      var changed = () => { called = true; };
+      var p = new Property<Model, number>({ value: 0, changed: changed });
+      var m = new Model();
+      p.set(m, 1);
+      called = false;
+      m.propertyChanged.connect(changed);
+      clearPropertyData(m);
+      expect(called).to.be(false);
+    });
+
+    it('should emit notifications for changed values if requested', () => {
+      var result: number[] = [];
+      var args: IPropertyChangedArgs[] = [];
+      var changed = (m: Model, o: number, n: number) => { result.push(o, n); };
+      var p1 = new Property<Model, number>({ value: 0, changed: changed });
+      var p2 = new Property<Model, number>({ value: 0, changed: changed });
+      var p3 = new Property<Model, number>({ value: 0, changed: changed });
+      var m = new Model();
+      p1.set(m, 1);
+      p2.set(m, 0);
+      p3.set(m, 3);
+      result = [];
+      m.propertyChanged.connect(a => { args.push(a); });
+      clearPropertyData(m, true);
+      expect(result).to.eql([1, 0, 3, 0]);
+      expect(args.length).to.be(2);
+      expect(args[0].property).to.be(p1);
+      expect(args[1].property).to.be(p3);
+      expect(p1.get(m)).to.be(0);
+      expect(p3.get(m)).to.be(0);
+    });
+
+  });
+
+
+  describe('batchPropertyChanges()', () => {
+
+    it('should defer the `propertyChanged` signal until the batch ends', () => {
+      var args: IPropertyChangedArgs[] = [];
+      var p1 = new Property<Model, number>({ value: 0 });
+      var p2 = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      m.propertyChanged.connect(a => { args.push(a); });
+      batchPropertyChanges(m, () => {
+        p1.set(m, 1);
+        p2.set(m, 2);
+        expect(args.length).to.be(0);
+      });
+      expect(args.length).to.be(2);
+      expect(args[0].property).to.be(p1);
+      expect(args[0].newValue).to.be(1);
+      expect(args[1].property).to.be(p2);
+      expect(args[1].newValue).to.be(2);
+    });
+
+    it('should coalesce multiple changes to the same property', () => {
+      var args: IPropertyChangedArgs[] = [];
+      var p1 = new Property<Model, number>({ value: 0 });
+      var p2 = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      m.propertyChanged.connect(a => { args.push(a); });
+      batchPropertyChanges(m, () => {
+        p1.set(m, 1);
+        p2.set(m, 2);
+        p1.set(m, 3);
+        p1.set(m, 4);
+      });
+      expect(args.length).to.be(2);
+      expect(args[0].property).to.be(p1);
+      expect(args[0].oldValue).to.be(0);
+      expect(args[0].newValue).to.be(4);
+      expect(args[1].property).to.be(p2);
+    });
+
+    it('should keep computed values current inside the batch', () => {
+      var a = new Property<Model, number>({ value: 1 });
+      var c = new ComputedProperty<Model, number>({
+        compute: owner => a.get(owner) * 2,
+      });
+      var m = new Model();
+      expect(c.get(m)).to.be(2);
+      batchPropertyChanges(m, () => {
+        a.set(m, 2);
+        expect(c.get(m)).to.be(4);
+      });
+      expect(c.get(m)).to.be(4);
+    });
+
+    it('should drop changes which net out to equal values', () => {
+      var called = false;
+      var compare = (v1: number, v2: number) => Math.abs(v1 - v2) < 1;
+      var p1 = new Property<Model, number>({ value: 0 });
+      var p2 = new Property<Model, number>({ value: 0, compare: compare });
+      var m = new Model();
+      m.propertyChanged.connect(() => { called = true; });
+      batchPropertyChanges(m, () => {
+        p1.set(m, 1);
+        p1.set(m, 0);
+        p2.set(m, 2);
+        p2.set(m, 0.5);
+      });
+      expect(called).to.be(false);
+    });
+
+    it('should support nested batches', () => {
+      var count = 0;
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      m.propertyChanged.connect(() => { count++; });
+      batchPropertyChanges(m, () => {
+        p.set(m, 1);
+        batchPropertyChanges(m, () => { p.set(m, 2); });
+        expect(count).to.be(0);
+        p.set(m, 3);
+      });
+      expect(count).to.be(1);
+      expect(p.get(m)).to.be(3);
+    });
+
+    it('should only batch the notifications for the given owner', () => {
+      var count1 = 0;
+      var count2 = 0;
+      var p = new Property<Model, number>({ value: 0 });
+      var m1 = new Model();
+      var m2 = new Model();
+      m1.propertyChanged.connect(() => { count1++; });
+      m2.propertyChanged.connect(() => { count2++; });
+      batchPropertyChanges(m1, () => {
+        p.set(m1, 1);
+        p.set(m2, 1);
+        expect(count1).to.be(0);
+        expect(count2).to.be(1);
+      });
+      expect(count1).to.be(1);
+    });
+
+    it('should invoke the changed function immediately for each change', () => {
+      var result: number[] = [];
+      var changed = (m: Model, o: number, n: number) => { result.push(o, n); };
+      var p = new Property<Model, number>({ value: 0, changed: changed });
+      var m = new Model();
+      batchPropertyChanges(m, () => {
+        p.set(m, 1);
+        expect(result).to.eql([0, 1]);
+        p.set(m, 2);
+        expect(result).to.eql([0, 1, 1, 2]);
+      });
+      expect(result).to.eql([0, 1, 1, 2]);
+    });
+
+    it('should emit the notifications if the callback throws', () => {
+      var count = 0;
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      m.propertyChanged.connect(() => { count++; });
+      expect(() => {
+        batchPropertyChanges(m, () => {
+          p.set(m, 1);
+          throw new Error();
+        });
+      }).to.throwError();
+      expect(count).to.be(1);
+      p.set(m, 2);
+      expect(count).to.be(2);
+    });
+
+  });
+
+  describe('setMaxChangeDepth()', () => {
+
+    it('should return the previous maximum depth', () => {
+      expect(setMaxChangeDepth(10)).to.be(100);
+      expect(setMaxChangeDepth(100)).to.be(10);
+    });
+
+    it('should limit the number of queued changes', () => {
+      var count = 0;
+      var p = new Property<Model, number>({
+        value: 0,
+        changed: (owner, oldValue, newValue) => {
+          count++;
+          if (newValue < 5) p.set(owner, newValue + 1);
+        },
+      });
+      var m1 = new Model();
+      var m2 = new Model();
+      setMaxChangeDepth(3);
+      try {
+        expect(() => { p.set(m1, 1); }).to.throwError();
+        expect(count).to.be(3);
+      } finally {
+        setMaxChangeDepth(100);
+      }
+      p.set(m2, 1);
+      expect(p.get(m2)).to.be(5);
+    });
+
+    it('should throw an error for a depth less than one', () => {
+      expect(() => { setMaxChangeDepth(0); }).to.throwError();
+      expect(() => { setMaxChangeDepth(NaN); }).to.throwError();
+    });
+
+  });
+
+  describe('ObservableList', () => {
+
+    describe('#constructor()', () => {
+
+      it('should copy the initial items', () => {
+        var items = [1, 2, 3];
+        var list = new ObservableList<number>(items);
+        items.push(4);
+        expect(list.toArray()).to.eql([1, 2, 3]);
+        expect(new ObservableList<number>().length).to.be(0);
+      });
+
+    });
+
+    describe('#changed', () => {
+
+      it('should report each kind of change', () => {
+        var args: IListChangedArgs<number>[] = [];
+        var list = new ObservableList<number>([1, 2, 3]);
+        list.changed.connect(a => { args.push(a); });
+        list.add(4);
+        list.insert(0, 0);
+        list.set(1, 10);
+        list.removeAt(2);
+        list.splice(1, 2, 7, 8, 9);
+        expect(list.toArray()).to.eql([0, 7, 8, 9, 4]);
+        expect(args.map(a => a.type)).to.eql([
+          ListChangeType.Add, ListChangeType.Add, ListChangeType.Replace,
+          ListChangeType.Remove, ListChangeType.Splice,
+        ]);
+        expect(args.map(a => a.index)).to.eql([3, 0, 1, 2, 1]);
+        expect(args[2].removed).to.eql([1]);
+        expect(args[2].added).to.eql([10]);
+        expect(args[4].removed).to.eql([10, 3]);
+        expect(args[4].added).to.eql([7, 8, 9]);
+      });
+
+      it('should not be emitted for a no-op change', () => {
+        var count = 0;
+        var list = new ObservableList<number>([1]);
+        list.changed.connect(() => { count++; });
+        list.set(0, 1);
+        list.splice(0, 0);
+        list.remove(5);
+        new ObservableList<number>().clear();
+        expect(count).to.be(0);
+      });
+
+    });
+
+    describe('#get()', () => {
+
+      it('should return the item at the index', () => {
+        var list = new ObservableList<number>([1, 2]);
+        expect(list.get(1)).to.be(2);
+        expect(list.get(2)).to.be(void 0);
+      });
+
+    });
+
+    describe('#set()', () => {
+
+      it('should return the replaced item', () => {
+        var list = new ObservableList<number>([1, 2]);
+        expect(list.set(0, 5)).to.be(1);
+        expect(list.toArray()).to.eql([5, 2]);
+      });
+
+      it('should throw an error for an invalid index', () => {
+        var list = new ObservableList<number>([1, 2]);
+        expect(() => { list.set(2, 5); }).to.throwError();
+        expect(() => { list.set(-1, 5); }).to.throwError();
+      });
+
+    });
+
+    describe('#insert()', () => {
+
+      it('should throw an error for an invalid index', () => {
+        var list = new ObservableList<number>([1, 2]);
+        list.insert(2, 3);
+        expect(list.toArray()).to.eql([1, 2, 3]);
+        expect(() => { list.insert(4, 5); }).to.throwError();
+      });
+
+    });
+
+    describe('#remove()', () => {
+
+      it('should remove the first occurrence of the item', () => {
+        var list = new ObservableList<number>([1, 2, 1]);
+        expect(list.remove(1)).to.be(0);
+        expect(list.toArray()).to.eql([2, 1]);
+        expect(list.remove(5)).to.be(-1);
+      });
+
+    });
+
+    describe('#clear()', () => {
+
+      it('should remove all items with a single splice', () => {
+        var args: IListChangedArgs<number>[] = [];
+        var list = new ObservableList<number>([1, 2]);
+        list.changed.connect(a => { args.push(a); });
+        list.clear();
+        expect(list.length).to.be(0);
+        expect(args.length).to.be(1);
+        expect(args[0].type).to.be(ListChangeType.Splice);
+        expect(args[0].removed).to.eql([1, 2]);
+      });
+
+    });
+
+  });
+
+  describe('ObservableMap', () => {
+
+    describe('#constructor()', () => {
+
+      it('should accept initial entries', () => {
+        var map = new ObservableMap<string, number>([['a', 1], ['b', 2]]);
+        expect(map.size).to.be(2);
+        expect(map.keys()).to.eql(['a', 'b']);
+        expect(map.values()).to.eql([1, 2]);
+      });
+
+    });
+
+    describe('#changed', () => {
+
+      it('should report each kind of change', () => {
+        var args: IMapChangedArgs<string, number>[] = [];
+        var map = new ObservableMap<string, number>();
+        map.changed.connect(a => { args.push(a); });
+        map.set('a', 1);
+        map.set('a', 2);
+        map.set('a', 2);
+        map.delete('a');
+        map.delete('a');
+        expect(args.map(a => a.type)).to.eql([
+          MapChangeType.Add, MapChangeType.Replace, MapChangeType.Remove,
+        ]);
+        expect(args.map(a => [a.oldValue, a.newValue])).to.eql([
+          [void 0, 1], [1, 2], [2, void 0],
+        ]);
+      });
+
+    });
+
+    describe('#get()', () => {
+
+      it('should return the value for the key', () => {
+        var map = new ObservableMap<string, number>([['a', 1]]);
+        expect(map.get('a')).to.be(1);
+        expect(map.has('a')).to.be(true);
+        expect(map.get('b')).to.be(void 0);
+        expect(map.has('b')).to.be(false);
+      });
+
+    });
+
+    describe('#clear()', () => {
+
+      it('should remove each key', () => {
+        var keys: string[] = [];
+        var map = new ObservableMap<string, number>([['a', 1], ['b', 2]]);
+        map.changed.connect(a => { keys.push(a.key); });
+        map.clear();
+        expect(map.size).to.be(0);
+        expect(keys).to.eql(['a', 'b']);
+      });
+
+    });
+
+  });
+
+  describe('propertyChanges()', () => {
+
+    it('should produce the new value of each change', () => {
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      var iter = propertyChanges(m, p);
+      var results: IPropertyChangeResult<number>[] = [];
+      p.set(m, 1);
+      p.set(m, 2);
+      return iter.next().then(result => {
+        results.push(result);
+        return iter.next();
+      }).then(result => {
+        results.push(result);
+        var promise = iter.next();
+        p.set(m, 3);
+        return promise;
+      }).then(result => {
+        results.push(result);
+        iter.return();
+        expect(results).to.eql([
+          { done: false, value: 1 },
+          { done: false, value: 2 },
+          { done: false, value: 3 },
+        ]);
+      });
+    });
+
+    it('should ignore the changes of other properties', () => {
+      var p1 = new Property<Model, number>({ value: 0 });
+      var p2 = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      var iter = propertyChanges(m, p1);
+      p2.set(m, 1);
+      p1.set(m, 2);
+      return iter.next().then(result => {
+        iter.return();
+        expect(result.value).to.be(2);
+      });
+    });
+
+    it('should finish and disconnect when returned', () => {
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      m.propertyChanged.connect(() => { });
+      var iter = propertyChanges(m, p);
+      var pending = iter.next();
+      return iter.return().then(result => {
+        expect(result.done).to.be(true);
+        return pending;
+      }).then(result => {
+        expect(result.done).to.be(true);
+        p.set(m, 1);
+        return iter.next();
+      }).then(result => {
+        expect(result.done).to.be(true);
+      });
+    });
+
+    it('should be an async iterable if supported', () => {
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      var iter = propertyChanges(m, p);
+      if (typeof Symbol === 'function' && Symbol.asyncIterator) {
+        expect((<any>iter)[Symbol.asyncIterator]()).to.be(iter);
+      }
+      iter.return();
+    });
+
+  });
+
+  describe('observeProperty()', () => {
+
+    it('should emit the current value and then each change', () => {
+      var values: number[] = [];
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      p.set(m, 1);
+      var sub = observeProperty(m, p).subscribe(v => { values.push(v); });
+      p.set(m, 2);
+      p.set(m, 3);
+      sub.unsubscribe();
+      expect(values).to.eql([1, 2, 3]);
+    });
+
+    it('should stop emitting when unsubscribed', () => {
+      var values: number[] = [];
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      m.propertyChanged.connect(() => { });
+      var sub = observeProperty(m, p).subscribe(v => { values.push(v); });
+      expect(sub.closed).to.be(false);
+      sub.unsubscribe();
+      expect(sub.closed).to.be(true);
+      sub.unsubscribe();
+      p.set(m, 1);
+      expect(values).to.eql([0]);
+    });
+
+    it('should support multiple independent subscriptions', () => {
+      var a: number[] = [];
+      var b: number[] = [];
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      var observable = observeProperty(m, p);
+      var sub1 = observable.subscribe(v => { a.push(v); });
+      p.set(m, 1);
+      var sub2 = observable.subscribe(v => { b.push(v); });
+      p.set(m, 2);
+      sub1.unsubscribe();
+      p.set(m, 3);
+      sub2.unsubscribe();
+      expect(a).to.eql([0, 1, 2]);
+      expect(b).to.eql([1, 2, 3]);
+    });
+
+  });
+
+  describe('easing functions', () => {
+
+    it('should map the endpoints to themselves', () => {
+      [easeLinear, easeIn, easeOut, easeInOut].forEach(easing => {
+        expect(easing(0)).to.be(0);
+        expect(easing(1)).to.be(1);
+      });
+    });
+
+    it('should ease the progress', () => {
+      expect(easeLinear(0.25)).to.be(0.25);
+      expect(easeIn(0.5)).to.be(0.125);
+      expect(easeOut(0.5)).to.be(0.875);
+      expect(easeInOut(0.5)).to.be(0.5);
+      expect(easeInOut(0.25) < 0.25).to.be(true);
+    });
+
+  });
+
+  describe('interpolateNumber()', () => {
+
+    it('should interpolate between two numbers', () => {
+      expect(interpolateNumber(10, 20, 0)).to.be(10);
+      expect(interpolateNumber(10, 20, 0.5)).to.be(15);
+      expect(interpolateNumber(10, 20, 1)).to.be(20);
+    });
+
+  });
+
+  describe('interpolateColor()', () => {
+
+    it('should interpolate between two hex colors', () => {
+      expect(interpolateColor('#000000', '#ffffff', 0.5)).to.be('#808080');
+      expect(interpolateColor('#f00', '#00f', 0)).to.be('#ff0000');
+      expect(interpolateColor('#f00', '#00f', 1)).to.be('#0000ff');
+    });
+
+    it('should throw an error for an invalid color', () => {
+      expect(() => { interpolateColor('red', '#fff', 0.5); }).to.throwError();
+    });
+
+  });
+
+  describe('transitionProperty()', () => {
+
+    var clock: ManualClock;
+
+    beforeEach(() => {
+      clock = new ManualClock();
+      setAnimationClock(clock);
+    });
+
+    afterEach(() => {
+      setAnimationClock(null);
+    });
+
+    it('should animate the value over the duration', () => {
+      var values: number[] = [];
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      m.propertyChanged.connect((args: IPropertyChangedArgs) => {
+        values.push(args.newValue);
+      });
+      var transition = transitionProperty(m, p, 100, { duration: 100 });
+      clock.advance(25);
+      clock.advance(25);
+      expect(p.get(m)).to.be(50);
+      expect(p.getLayerValue(m, PropertyLayer.Animation)).to.be(50);
+      clock.advance(50);
+      expect(values).to.eql([25, 50, 100]);
+      expect(p.get(m)).to.be(100);
+      expect(p.getLayerValue(m, PropertyLayer.Local)).to.be(100);
+      expect(p.hasLayerValue(m, PropertyLayer.Animation)).to.be(false);
+      expect(transition.isDisposed).to.be(true);
+      expect(clock.callbacks.length).to.be(0);
+    });
+
+    it('should be stopped by `clearPropertyData`', () => {
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      transitionProperty(m, p, 100, { duration: 100 });
+      clock.advance(50);
+      expect(p.get(m)).to.be(50);
+      clearPropertyData(m);
+      expect(clock.callbacks.length).to.be(0);
+      clock.advance(50);
+      expect(p.get(m)).to.be(0);
+      expect(p.hasLayerValue(m, PropertyLayer.Local)).to.be(false);
+      transitionProperty(m, p, 10, { duration: 10 });
+      clock.advance(10);
+      expect(p.get(m)).to.be(10);
+    });
+
+    it('should throw an error for an invalid target', () => {
+      var p = new Property<Model, number>({
+        value: 0,
+        validate: (owner, value) => value > 50 ? 'too large' : '',
+      });
+      var m = new Model();
+      expect(() => {
+        transitionProperty(m, p, 100, { duration: 100 });
+      }).to.throwError(e => {
+        expect(e instanceof PropertyValidationError).to.be(true);
+      });
+      expect(clock.callbacks.length).to.be(0);
+      expect(p.get(m)).to.be(0);
+    });
+
+    it('should cancel the transition if a frame throws', () => {
+      var limit = Infinity;
+      var p = new Property<Model, number>({
+        value: 0,
+        validate: (owner, value) => value > limit ? 'too large' : '',
+      });
+      var m = new Model();
+      var transition = transitionProperty(m, p, 100, { duration: 100 });
+      clock.advance(40);
+      expect(p.get(m)).to.be(40);
+      limit = 50;
+      expect(() => { clock.advance(20); }).to.throwError();
+      expect(transition.isDisposed).to.be(true);
+      expect(clock.callbacks.length).to.be(0);
+      expect(p.hasLayerValue(m, PropertyLayer.Animation)).to.be(false);
+      expect(p.get(m)).to.be(0);
+    });
+
+    it('should use the easing function', () => {
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      transitionProperty(m, p, 100, { duration: 100, easing: easeIn });
+      clock.advance(50);
+      expect(p.get(m)).to.be(12.5);
+    });
+
+    it('should pass the intermediate values through coerce', () => {
+      var p = new Property<Model, number>({
+        value: 0,
+        coerce: (owner, value) => Math.round(value),
+      });
+      var m = new Model();
+      transitionProperty(m, p, 10, { duration: 3 });
+      clock.advance(1);
+      expect(p.get(m)).to.be(3);
+    });
+
+    it('should animate colors with the registered interpolator', () => {
+      var p = new Property<Model, string>({ value: '#000000' });
+      var m = new Model();
+      transitionProperty(m, p, '#ffffff', { duration: 100 });
+      clock.advance(50);
+      expect(p.get(m)).to.be('#808080');
+      clock.advance(50);
+      expect(p.get(m)).to.be('#ffffff');
+    });
+
+    it('should use a custom interpolator', () => {
+      var p = new Property<Model, string>({ value: 'a' });
+      var m = new Model();
+      transitionProperty(m, p, 'b', {
+        duration: 100,
+        interpolator: (from, to, t) => t < 0.5 ? from : to,
+      });
+      clock.advance(25);
+      expect(p.get(m)).to.be('a');
+      clock.advance(50);
+      expect(p.get(m)).to.be('b');
+    });
+
+    it('should throw an error if no interpolator matches', () => {
+      var p = new Property<Model, any>({ value: {} });
+      var m = new Model();
+      expect(() => {
+        transitionProperty(m, p, {}, { duration: 100 });
+      }).to.throwError();
+    });
+
+    it('should be cancelled by a new set', () => {
+      var args: IPropertyChangedArgs[] = [];
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      m.propertyChanged.connect(a => { args.push(a); });
+      var transition = transitionProperty(m, p, 100, { duration: 100 });
+      clock.advance(50);
+      p.set(m, 10);
+      expect(transition.isDisposed).to.be(true);
+      expect(p.hasLayerValue(m, PropertyLayer.Animation)).to.be(false);
+      expect(args.map(a => [a.oldValue, a.newValue])).to.eql([[0, 50], [50, 10]]);
+      clock.advance(50);
+      expect(p.get(m)).to.be(10);
+    });
+
+    it('should be cancelled by a new transition', () => {
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      var t1 = transitionProperty(m, p, 100, { duration: 100 });
+      clock.advance(50);
+      var t2 = transitionProperty(m, p, 0, { duration: 100 });
+      expect(t1.isDisposed).to.be(true);
+      clock.advance(50);
+      expect(p.get(m)).to.be(25);
+      clock.advance(50);
+      expect(p.get(m)).to.be(0);
+      expect(t2.isDisposed).to.be(true);
+    });
+
+    it('should revert to the underlying value when disposed', () => {
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      var transition = transitionProperty(m, p, 100, { duration: 100 });
+      clock.advance(50);
+      transition.dispose();
+      expect(p.get(m)).to.be(0);
+      expect(clock.callbacks.length).to.be(0);
+    });
+
+    it('should set the target immediately for a zero duration', () => {
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      var transition = transitionProperty(m, p, 100, { duration: 0 });
+      expect(p.get(m)).to.be(100);
+      expect(transition.isDisposed).to.be(true);
+    });
+
+    it('should throw an error for a computed property', () => {
+      var p = new ComputedProperty<Model, number>({ compute: () => 0 });
+      var m = new Model();
+      expect(() => {
+        transitionProperty(m, p, 100, { duration: 100 });
+      }).to.throwError();
+    });
+
+  });
+
+  describe('registerInterpolator()', () => {
+
+    it('should register an interpolator for a type of value', () => {
+      var p = new Property<Model, number[]>({ value: [0, 0] });
+      var m = new Model();
+      var clock = new ManualClock();
+      setAnimationClock(clock);
+      var handle = registerInterpolator<number[]>(Array.isArray, (from, to, t) => {
+        return from.map((v, i) => interpolateNumber(v, to[i], t));
+      });
+      transitionProperty(m, p, [10, 20], { duration: 100 });
+      clock.advance(50);
+      handle.dispose();
+      setAnimationClock(null);
+      expect(p.get(m)).to.eql([5, 10]);
+      expect(() => {
+        transitionProperty(m, p, [0, 0], { duration: 100 });
+      }).to.throwError();
+    });
+
+  });
+
+  describe('setAnimationClock()', () => {
+
+    it('should return the previous clock', () => {
+      var clock = new ManualClock();
+      var old = setAnimationClock(clock);
+      expect(setAnimationClock(null)).to.be(clock);
+      expect(setAnimationClock(null)).to.be(old);
+    });
+
+  });
+
+  describe('PropertySet', () => {
+
+    describe('#constructor()', () => {
+
+      it('should accept an array of properties', () => {
+        var p1 = new Property<Model, number>({ name: 'a' });
+        var p2 = new Property<Model, number>({ name: 'b' });
+        var set = new PropertySet([p1, p2]);
+        expect(set instanceof PropertySet).to.be(true);
+      });
+
+      it('should throw an error for an unnamed property', () => {
+        var p = new Property<Model, number>();
+        expect(() => { new PropertySet([p]); }).to.throwError();
+      });
+
+      it('should throw an error for a duplicate property name', () => {
+        var p1 = new Property<Model, number>({ name: 'a' });
+        var p2 = new Property<Model, number>({ name: 'a' });
+        expect(() => { new PropertySet([p1, p2]); }).to.throwError();
+      });
+
+    });
+
+    describe('#properties', () => {
+
+      it('should return a copy of the properties', () => {
+        var p1 = new Property<Model, number>({ name: 'a' });
+        var p2 = new Property<Model, number>({ name: 'b' });
+        var set = new PropertySet([p1, p2]);
+        var properties = set.properties;
+        expect(properties).to.eql([p1, p2]);
+        properties.pop();
+        expect(set.properties).to.eql([p1, p2]);
+      });
+
+    });
+
+    describe('#find()', () => {
+
+      it('should find a property by name', () => {
+        var p1 = new Property<Model, number>({ name: 'a' });
+        var p2 = new Property<Model, number>({ name: 'b' });
+        var set = new PropertySet([p1, p2]);
+        expect(set.find('b')).to.be(p2);
+      });
+
+      it('should return `null` for an unknown name', () => {
+        var set = new PropertySet([]);
+        expect(set.find('a')).to.be(null);
+        expect(set.find('toString')).to.be(null);
+      });
+
+    });
+
+  });
+
+  describe('getProperties()', () => {
+
+    it('should return the current values of the properties', () => {
+      var p1 = new Property<Model, number>({ name: 'a', value: 1 });
+      var p2 = new Property<Model, string>({ name: 'b', value: 'x' });
+      var set = new PropertySet([p1, p2]);
+      var m = new Model();
+      p1.set(m, 2);
+      expect(getProperties(m, set)).to.eql({ a: 2, b: 'x' });
+    });
+
+    it('should default to the registered properties', () => {
+      class Owner extends Model { }
+      var p1 = new Property<Owner, number>({ name: 'a', ownerType: Owner, value: 1 });
+      var p2 = new Property<Owner, number>({ name: 'b', ownerType: Owner, value: 2 });
+      var m = new Owner();
+      expect(getProperties(m)).to.eql({ a: 1, b: 2 });
+    });
+
+  });
+
+  describe('setProperties()', () => {
+
+    it('should set the values of the properties', () => {
+      var p1 = new Property<Model, number>({ name: 'a', value: 1 });
+      var p2 = new Property<Model, string>({ name: 'b', value: 'x' });
+      var set = new PropertySet([p1, p2]);
+      var m = new Model();
+      setProperties(m, { a: 2, b: 'y' }, set);
+      expect(p1.get(m)).to.be(2);
+      expect(p2.get(m)).to.be('y');
+    });
+
+    it('should default to the registered properties', () => {
+      class Owner extends Model { }
+      var p1 = new Property<Owner, number>({ name: 'a', ownerType: Owner, value: 1 });
+      var m = new Owner();
+      setProperties(m, { a: 2 });
+      expect(p1.get(m)).to.be(2);
+    });
+
+    it('should throw an error for an unknown name', () => {
+      var p1 = new Property<Model, number>({ name: 'a', value: 1 });
+      var set = new PropertySet([p1]);
+      var m = new Model();
+      expect(() => {
+        setProperties(m, { a: 2, c: 3 }, set);
+      }).to.throwError(/Unknown property: c/);
+      expect(p1.get(m)).to.be(1);
+    });
+
+    it('should not write any value if a value is invalid', () => {
+      var p1 = new Property<Model, number>({ name: 'a', value: 1 });
+      var p2 = new Property<Model, number>({
+        name: 'b',
+        value: 1,
+        validate: (owner, value) => value < 0 ? 'negative' : '',
+      });
+      var set = new PropertySet([p1, p2]);
+      var m = new Model();
+      expect(() => {
+        setProperties(m, { a: 2, b: -1 }, set);
+      }).to.throwError(e => {
+        expect(e instanceof PropertyValidationError).to.be(true);
+      });
+      expect(p1.get(m)).to.be(1);
+      expect(p2.get(m)).to.be(1);
+    });
+
+    it('should coerce the values against the new state', () => {
+      var minimum = new Property<Model, number>({ name: 'minimum', value: 0 });
+      var maximum = new Property<Model, number>({ name: 'maximum', value: 10 });
+      var value = new Property<Model, number>({
+        name: 'value',
+        value: 0,
+        coerce: (owner, v) => {
+          return Math.max(minimum.get(owner), Math.min(maximum.get(owner), v));
+        },
+      });
+      var set = new PropertySet([minimum, maximum, value]);
+      var m = new Model();
+      setProperties(m, { value: 50, maximum: 100, minimum: 20 }, set);
+      expect(value.get(m)).to.be(50);
+      setProperties(m, { value: 5, minimum: 10 }, set);
+      expect(value.get(m)).to.be(10);
+    });
+
+    it('should roll back the values if a coerce function throws', () => {
+      var called = false;
+      var p1 = new Property<Model, number>({ name: 'a', value: 1 });
+      var p2 = new Property<Model, number>({
+        name: 'b',
+        value: 1,
+        coerce: (owner, v) => {
+          if (v < 0) throw new Error('negative');
+          return v;
+        },
+      });
+      var set = new PropertySet([p1, p2]);
+      var m = new Model();
+      p2.set(m, 2);
+      m.propertyChanged.connect(() => { called = true; });
+      expect(() => {
+        setProperties(m, { a: 5, b: -1 }, set);
+      }).to.throwError(/negative/);
+      expect(called).to.be(false);
+      expect(p1.has(m)).to.be(false);
+      expect(p1.get(m)).to.be(1);
+      expect(p1.hasLayerValue(m, PropertyLayer.Local)).to.be(false);
+      expect(p2.get(m)).to.be(2);
+      expect(p2.getLayerValue(m, PropertyLayer.Local)).to.be(2);
+    });
+
+    it('should emit one signal per changed property after the writes', () => {
+      var args: IPropertyChangedArgs[] = [];
+      var values: number[][] = [];
+      var p1 = new Property<Model, number>({ name: 'a', value: 1 });
+      var p2 = new Property<Model, number>({ name: 'b', value: 1 });
+      var p3 = new Property<Model, number>({ name: 'c', value: 1 });
+      var set = new PropertySet([p1, p2, p3]);
+      var m = new Model();
+      m.propertyChanged.connect(a => {
+        args.push(a);
+        values.push([p1.get(m), p2.get(m), p3.get(m)]);
+      });
+      setProperties(m, { a: 2, b: 3, c: 1 }, set);
+      expect(args.length).to.be(2);
+      expect(args[0].property).to.be(p1);
+      expect(args[0].oldValue).to.be(1);
+      expect(args[0].newValue).to.be(2);
+      expect(args[1].property).to.be(p2);
+      expect(values).to.eql([[2, 3, 1], [2, 3, 1]]);
+    });
+
+    it('should throw an error for a computed property', () => {
+      var p = new ComputedProperty<Model, number>({ name: 'a', compute: () => 1 });
+      var set = new PropertySet([p]);
+      var m = new Model();
+      expect(() => { setProperties(m, { a: 2 }, set); }).to.throwError();
+    });
+
+    it('should throw an error for a read-only property', () => {
+      var p = new ReadOnlyProperty<Model, number>({ name: 'a', key: {}, value: 1 });
+      var set = new PropertySet([p]);
+      var m = new Model();
+      expect(() => { setProperties(m, { a: 2 }, set); }).to.throwError();
+      expect(p.get(m)).to.be(1);
+    });
+
+  });
+
+  describe('getPropertyEntries()', () => {
+
+    it('should return the stored properties and values for an owner', () => {
+      var p1 = new Property<Model, number>({ value: 0 });
+      var p2 = new Property<Model, number>({ value: 42 });
+      var p3 = new Property<Model, number>({ value: 0 });
+      var m1 = new Model();
+      var m2 = new Model();
+      p1.set(m1, 1);
+      p2.get(m1);
+      p3.set(m2, 3);
+      var entries = getPropertyEntries(m1);
+      expect(entries.length).to.be(2);
+      expect(entries[0].property).to.be(p1);
+      expect(entries[0].value).to.be(1);
+      expect(entries[1].property).to.be(p2);
+      expect(entries[1].value).to.be(42);
+    });
+
+    it('should return an empty array for an owner without values', () => {
+      var m = new Model();
+      expect(getPropertyEntries(m)).to.eql([]);
+    });
+
+    it('should return the effective value of the property', () => {
+      var coerce = (m: Model, v: number) => Math.max(0, v);
+      var p = new Property<Model, number>({ value: 0, coerce: coerce });
+      var m = new Model();
+      p.set(m, -1);
+      p.setLayerValue(m, PropertyLayer.Style, 5);
+      var entries = getPropertyEntries(m);
+      expect(entries.length).to.be(1);
+      expect(entries[0].value).to.be(0);
+    });
+
+    it('should not include cleared properties', () => {
+      var p1 = new Property<Model, number>({ value: 0 });
+      var p2 = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      p1.set(m, 1);
+      p2.set(m, 2);
+      p1.clear(m);
+      var entries = getPropertyEntries(m);
+      expect(entries.length).to.be(1);
+      expect(entries[0].property).to.be(p2);
+      clearPropertyData(m);
+      expect(getPropertyEntries(m)).to.eql([]);
+    });
+
+    it('should not include inherited values', () => {
+      setInheritanceResolver(treeResolver);
+      var p = new Property<TreeModel, number>({ value: 0, inherits: true });
+      var m1 = new TreeModel();
+      var m2 = new TreeModel(m1);
+      p.set(m1, 1);
+      p.get(m2);
+      expect(getPropertyEntries(m2)).to.eql([]);
+      setInheritanceResolver(null);
+    });
+
+    it('should not materialize default values', () => {
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      getPropertyEntries(m);
+      expect(p.has(m)).to.be(false);
+    });
+
+  });
+
+  describe('setInheritanceResolver()', () => {
+
+    it('should return the previous resolver', () => {
+      var old = setInheritanceResolver(treeResolver);
+      expect(setInheritanceResolver(old)).to.be(treeResolver);
+    });
+
+    it('should restore the default resolver when given `null`', () => {
+      setInheritanceResolver(treeResolver);
+      setInheritanceResolver(null);
+      var p = new Property<TreeModel, number>({ value: 0, inherits: true });
+      var m1 = new TreeModel();
+      var m2 = new TreeModel(m1);
+      p.set(m1, 1);
+      expect(p.get(m2)).to.be(0);
+    });
+
+  });
+
+  describe('shallowEqual()', () => {
+
+    it('should compare the own keys of two objects', () => {
+      expect(shallowEqual({ a: 1, b: 'x' }, { b: 'x', a: 1 })).to.be(true);
+      expect(shallowEqual({ a: 1 }, { a: 2 })).to.be(false);
+      expect(shallowEqual({ a: 1 }, { a: 1, b: 2 })).to.be(false);
+      expect(shallowEqual({ a: void 0 }, { b: void 0 })).to.be(false);
+    });
+
+    it('should distinguish arrays, objects and prototypes', () => {
+      class A { }
+      class B { }
+      expect(shallowEqual([], {})).to.be(false);
+      expect(shallowEqual(new A(), new B())).to.be(false);
+      expect(shallowEqual(new A(), new A())).to.be(true);
+    });
+
+    it('should compare dates by time', () => {
+      expect(shallowEqual(new Date(1), new Date(1))).to.be(true);
+      expect(shallowEqual(new Date(1), new Date(2))).to.be(false);
+    });
+
+    it('should compare regular expressions by source and flags', () => {
+      expect(shallowEqual(/a/g, /a/g)).to.be(true);
+      expect(shallowEqual(/a/g, /a/i)).to.be(false);
+    });
+
+    it('should compare maps and sets by their contents', () => {
+      var inner = {};
+      var m1 = new Map<string, any>();
+      var m2 = new Map<string, any>();
+      m1.set('a', inner);
+      m2.set('a', inner);
+      expect(shallowEqual(m1, m2)).to.be(true);
+      m2.set('a', {});
+      expect(shallowEqual(m1, m2)).to.be(false);
+      expect(shallowEqual(new Map<string, any>(), m1)).to.be(false);
+      var s1 = new Set<number>();
+      var s2 = new Set<number>();
+      s1.add(1);
+      expect(shallowEqual(s1, s2)).to.be(false);
+      s2.add(1);
+      expect(shallowEqual(s1, s2)).to.be(true);
+      expect(shallowEqual(new WeakMap<any, any>(), new WeakMap<any, any>())).to.be(false);
+    });
+
+    it('should compare the values by identity', () => {
+      var inner = {};
+      expect(shallowEqual({ a: inner }, { a: inner })).to.be(true);
+      expect(shallowEqual({ a: {} }, { a: {} })).to.be(false);
+    });
+
+    it('should handle `NaN` and `-0`', () => {
+      expect(shallowEqual(NaN, NaN)).to.be(true);
+      expect(shallowEqual({ a: NaN }, { a: NaN })).to.be(true);
+      expect(shallowEqual({ a: -0 }, { a: 0 })).to.be(true);
+    });
+
+    it('should handle primitives and `null`', () => {
+      expect(shallowEqual(1, 1)).to.be(true);
+      expect(shallowEqual('1', 1)).to.be(false);
+      expect(shallowEqual(null, {})).to.be(false);
+      expect(shallowEqual(null, null)).to.be(true);
+    });
+
+    it('should be usable as a property comparator', () => {
+      var count = 0;
+      var p = new Property<Model, any>({
+        value: { a: 1 },
+        compare: shallowEqual,
+        changed: () => { count++; },
+      });
+      var m = new Model();
+      p.set(m, { a: 1 });
+      p.set(m, { a: 2 });
+      expect(count).to.be(1);
+    });
+
+  });
+
+  describe('arrayEqual()', () => {
+
+    it('should compare the elements of two arrays', () => {
+      expect(arrayEqual([1, 2, 3], [1, 2, 3])).to.be(true);
+      expect(arrayEqual([1, 2, 3], [1, 2])).to.be(false);
+      expect(arrayEqual([1, 2, 3], [1, 3, 2])).to.be(false);
+      expect(arrayEqual([{}], [{}])).to.be(false);
+    });
+
+    it('should handle `NaN` and `-0`', () => {
+      expect(arrayEqual([NaN], [NaN])).to.be(true);
+      expect(arrayEqual([-0], [0])).to.be(true);
+    });
+
+    it('should treat a hole as an `undefined` element', () => {
+      var sparse = [1, , 3];
+      expect(arrayEqual(sparse, [1, void 0, 3])).to.be(true);
+      expect(arrayEqual(new Array(2), [void 0, void 0])).to.be(true);
+      expect(arrayEqual(new Array(2), [])).to.be(false);
+    });
+
+    it('should return `false` for a non-array', () => {
+      expect(arrayEqual(<any>{ length: 0 }, [])).to.be(false);
+      expect(arrayEqual(null, [])).to.be(false);
+      expect(arrayEqual(null, null)).to.be(true);
+    });
+
+  });
+
+  describe('deepEqual()', () => {
+
+    it('should compare nested structures', () => {
+      var a = { x: [1, { y: 'z' }], w: { v: null as any } };
+      var b = { x: [1, { y: 'z' }], w: { v: null as any } };
+      expect(deepEqual(a, b)).to.be(true);
+      b.x.push(2);
+      expect(deepEqual(a, b)).to.be(false);
+    });
+
+    it('should handle `NaN` and `-0`', () => {
+      expect(deepEqual({ a: [NaN] }, { a: [NaN] })).to.be(true);
+      expect(deepEqual({ a: -0 }, { a: 0 })).to.be(true);
+    });
+
+    it('should treat a hole as an `undefined` element', () => {
+      var sparse = [1, , 3];
+      expect(deepEqual(sparse, [1, void 0, 3])).to.be(true);
+      expect(deepEqual(sparse, [1, 3])).to.be(false);
+    });
+
+    it('should compare dates by time', () => {
+      expect(deepEqual({ d: new Date(5) }, { d: new Date(5) })).to.be(true);
+      expect(deepEqual({ d: new Date(5) }, { d: new Date(6) })).to.be(false);
+    });
+
+    it('should compare regular expressions by source and flags', () => {
+      expect(deepEqual(/a/g, /a/g)).to.be(true);
+      expect(deepEqual(/a/g, /b/g)).to.be(false);
+      expect(deepEqual(/a/g, /a/i)).to.be(false);
+    });
+
+    it('should compare maps by entries', () => {
+      var a = new Map<string, any>();
+      var b = new Map<string, any>();
+      a.set('x', [1]);
+      b.set('x', [1]);
+      expect(deepEqual(a, b)).to.be(true);
+      b.set('x', [2]);
+      expect(deepEqual(a, b)).to.be(false);
+      b.delete('x');
+      b.set('y', [1]);
+      expect(deepEqual(a, b)).to.be(false);
+    });
+
+    it('should compare sets by elements', () => {
+      var a = new Set<number>();
+      var b = new Set<number>();
+      a.add(1);
+      b.add(1);
+      expect(deepEqual(a, b)).to.be(true);
+      b.add(2);
+      expect(deepEqual(a, b)).to.be(false);
+      a.add(3);
+      expect(deepEqual(a, b)).to.be(false);
+    });
+
+    it('should compare observable maps by entries', () => {
+      var a = new ObservableMap<string, number>();
+      var b = new ObservableMap<string, number>();
+      a.set('x', 1);
+      b.set('x', 1);
+      expect(deepEqual(a, b)).to.be(true);
+      b.set('x', 2);
+      expect(deepEqual(a, b)).to.be(false);
+    });
+
+    it('should compare weak maps and weak sets by identity', () => {
+      var a = new WeakMap<any, any>();
+      expect(deepEqual(a, a)).to.be(true);
+      expect(deepEqual(a, new WeakMap<any, any>())).to.be(false);
+      expect(deepEqual(new WeakSet<any>(), new WeakSet<any>())).to.be(false);
+    });
+
+    it('should distinguish arrays, objects and prototypes', () => {
+      class A { }
+      class B { }
+      expect(deepEqual([], {})).to.be(false);
+      expect(deepEqual(new A(), new B())).to.be(false);
+      expect(deepEqual(new A(), new A())).to.be(true);
+      expect(deepEqual({ a: void 0 }, {})).to.be(false);
+    });
+
+    it('should handle cyclic structures', () => {
+      var a: any = { name: 'a' };
+      var b: any = { name: 'a' };
+      a.self = a;
+      b.self = b;
+      expect(deepEqual(a, b)).to.be(true);
+      var c: any = { name: 'a', self: { name: 'a', self: null } };
+      c.self.self = c;
+      expect(deepEqual(a, c)).to.be(false);
+      var e: any[] = [];
+      var f: any[] = [];
+      e.push(e);
+      f.push(f);
+      expect(deepEqual(e, f)).to.be(true);
+    });
+
+  });
+
+  describe('epsilonEqual()', () => {
+
+    it('should compare numbers within the epsilon', () => {
+      var compare = epsilonEqual(0.01);
+      expect(compare(1, 1.005)).to.be(true);
+      expect(compare(1, 1.02)).to.be(false);
+      expect(compare(0.1 + 0.2, 0.3)).to.be(true);
+    });
+
+    it('should handle `NaN`, `-0` and infinities', () => {
+      var compare = epsilonEqual(0);
+      expect(compare(NaN, NaN)).to.be(true);
+      expect(compare(NaN, 0)).to.be(false);
+      expect(compare(-0, 0)).to.be(true);
+      expect(compare(Infinity, Infinity)).to.be(true);
+      expect(epsilonEqual(1e6)(Infinity, -Infinity)).to.be(false);
+      expect(epsilonEqual(1e6)(Infinity, 1)).to.be(false);
+    });
+
+    it('should throw an error for an invalid epsilon', () => {
+      expect(() => { epsilonEqual(-1); }).to.throwError();
+      expect(() => { epsilonEqual(NaN); }).to.throwError();
+    });
+
+  });
+
+  describe('dateEqual()', () => {
+
+    it('should compare dates by time', () => {
+      expect(dateEqual(new Date(5), new Date(5))).to.be(true);
+      expect(dateEqual(new Date(5), new Date(6))).to.be(false);
+    });
+
+    it('should treat two invalid dates as equal', () => {
+      expect(dateEqual(new Date(NaN), new Date(NaN))).to.be(true);
+      expect(dateEqual(new Date(NaN), new Date(0))).to.be(false);
+    });
+
+    it('should handle `null` values', () => {
+      expect(dateEqual(null, null)).to.be(true);
+      expect(dateEqual(null, new Date(0))).to.be(false);
+    });
+
+  });
+
+  describe('bind()', () => {
+
+    it('should initialize the target with the source value', () => {
+      var p1 = new Property<Model, number>({ value: 1 });
+      var p2 = new Property<Model, number>({ value: 0 });
+      var m1 = new Model();
+      var m2 = new Model();
+      bind(m1, p1, m2, p2);
+      expect(p2.get(m2)).to.be(1);
+    });
+
+    it('should default to a one-way binding', () => {
+      var p1 = new Property<Model, number>({ value: 1 });
+      var p2 = new Property<Model, number>({ value: 0 });
+      var m1 = new Model();
+      var m2 = new Model();
+      bind(m1, p1, m2, p2);
+      p1.set(m1, 2);
+      expect(p2.get(m2)).to.be(2);
+      p2.set(m2, 3);
+      expect(p1.get(m1)).to.be(2);
+    });
+
+    it('should propagate changes in both directions for a two-way binding', () => {
+      var p1 = new Property<Model, number>({ value: 1 });
+      var p2 = new Property<Model, number>({ value: 0 });
+      var m1 = new Model();
+      var m2 = new Model();
+      bind(m1, p1, m2, p2, { mode: BindingMode.TwoWay });
+      p1.set(m1, 2);
+      expect(p2.get(m2)).to.be(2);
+      p2.set(m2, 3);
+      expect(p1.get(m1)).to.be(3);
+    });
+
+    it('should only copy the value once for a one-time binding', () => {
+      var p1 = new Property<Model, number>({ value: 1 });
+      var p2 = new Property<Model, number>({ value: 0 });
+      var m1 = new Model();
+      var m2 = new Model();
+      var binding = bind(m1, p1, m2, p2, { mode: BindingMode.OneTime });
+      expect(p2.get(m2)).to.be(1);
+      expect(binding.isDisposed).to.be(true);
+      p1.set(m1, 2);
+      expect(p2.get(m2)).to.be(1);
+    });
+
+    it('should apply the value converters', () => {
+      var p1 = new Property<Model, number>({ value: 1 });
+      var p2 = new Property<Model, string>({ value: '' });
+      var m1 = new Model();
+      var m2 = new Model();
+      bind(m1, p1, m2, p2, {
+        mode: BindingMode.TwoWay,
+        convert: v => String(v),
+        convertBack: v => Number(v),
+      });
+      expect(p2.get(m2)).to.be('1');
+      p1.set(m1, 2);
+      expect(p2.get(m2)).to.be('2');
+      p2.set(m2, '3');
+      expect(p1.get(m1)).to.be(3);
+    });
+
+    it('should respect the coerce function of the target', () => {
+      var coerce = (m: Model, v: number) => Math.min(10, v);
+      var p1 = new Property<Model, number>({ value: 1 });
+      var p2 = new Property<Model, number>({ value: 0, coerce: coerce });
+      var m1 = new Model();
+      var m2 = new Model();
+      bind(m1, p1, m2, p2, { mode: BindingMode.TwoWay });
+      p1.set(m1, 20);
+      expect(p2.get(m2)).to.be(10);
+      expect(p1.get(m1)).to.be(20);
+    });
+
+    it('should respect the compare function of the target', () => {
+      var count = 0;
+      var compare = (v1: number, v2: number) => Math.floor(v1) === Math.floor(v2);
+      var p1 = new Property<Model, number>({ value: 1 });
+      var p2 = new Property<Model, number>({ value: 0, compare: compare });
+      var m1 = new Model();
+      var m2 = new Model();
+      bind(m1, p1, m2, p2);
+      m2.propertyChanged.connect(() => { count++; });
+      p1.set(m1, 1.5);
+      expect(count).to.be(0);
+      p1.set(m1, 2);
+      expect(count).to.be(1);
+    });
+
+    it('should not loop for a two-way binding', () => {
+      var count = 0;
+      var p1 = new Property<Model, number>({
+        value: 1, changed: () => { count++; },
+      });
+      var p2 = new Property<Model, number>({ value: 0 });
+      var m1 = new Model();
+      var m2 = new Model();
+      bind(m1, p1, m2, p2, { mode: BindingMode.TwoWay, convert: v => v + 1 });
+      p1.set(m1, 5);
+      expect(p2.get(m2)).to.be(6);
+      expect(p1.get(m1)).to.be(5);
+      expect(count).to.be(1);
+    });
+
+    it('should support two properties on the same owner', () => {
+      var p1 = new Property<Model, number>({ value: 1 });
+      var p2 = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      bind(m, p1, m, p2, { mode: BindingMode.TwoWay });
+      p1.set(m, 2);
+      expect(p2.get(m)).to.be(2);
+      p2.set(m, 3);
+      expect(p1.get(m)).to.be(3);
+    });
+
+    it('should disconnect the binding when disposed', () => {
+      var p1 = new Property<Model, number>({ value: 1 });
+      var p2 = new Property<Model, number>({ value: 0 });
+      var m1 = new Model();
+      var m2 = new Model();
+      var binding = bind(m1, p1, m2, p2, { mode: BindingMode.TwoWay });
+      expect(binding.isDisposed).to.be(false);
+      binding.dispose();
+      expect(binding.isDisposed).to.be(true);
+      p1.set(m1, 2);
+      expect(p2.get(m2)).to.be(1);
+      p2.set(m2, 3);
+      expect(p1.get(m1)).to.be(2);
+      binding.dispose();
+    });
+
+  });
+
+  describe('snapshotProperties()', () => {
+
+    it('should snapshot the local values keyed by property name', () => {
+      var p1 = new Property<Model, number>({ name: 'a', value: 0 });
+      var p2 = new Property<Model, string>({ name: 'b', value: '' });
+      var p3 = new Property<Model, number>({ name: 'c', value: 0 });
+      var m = new Model();
+      p1.set(m, 1);
+      p2.set(m, 'x');
+      p3.get(m);
+      var snapshot = snapshotProperties(m, [p1, p2, p3]);
+      expect(snapshot).to.eql({ a: 1, b: 'x' });
+      expect(JSON.parse(JSON.stringify(snapshot))).to.eql(snapshot);
+    });
+
+    it('should record the value before coercion', () => {
+      var coerce = (m: Model, v: number) => Math.max(0, v);
+      var p = new Property<Model, number>({ name: 'a', value: 0, coerce: coerce });
+      var m = new Model();
+      p.set(m, -1);
+      expect(snapshotProperties(m, [p])).to.eql({ a: -1 });
+    });
+
+    it('should use the serialize function', () => {
+      var p = new Property<Model, Date>({
+        name: 'date',
+        serialize: v => v.getTime(),
+      });
+      var m = new Model();
+      p.set(m, new Date(42));
+      expect(snapshotProperties(m, [p])).to.eql({ date: 42 });
+    });
+
+    it('should skip properties which opt out of persistence', () => {
+      var p1 = new Property<Model, number>({ name: 'a', value: 0 });
+      var p2 = new Property<Model, number>({ name: 'b', value: 0, persist: false });
+      var m = new Model();
+      p1.set(m, 1);
+      p2.set(m, 2);
+      expect(snapshotProperties(m, [p1, p2])).to.eql({ a: 1 });
+    });
+
+    it('should default to the registered properties of the owner type', () => {
+      class Owner extends Model { }
+      var p1 = new Property<Owner, number>({ name: 'a', ownerType: Owner });
+      var p2 = new Property<Owner, number>({ name: 'b', ownerType: Owner });
+      var m = new Owner();
+      p1.set(m, 1);
+      p2.set(m, 2);
+      expect(snapshotProperties(m)).to.eql({ a: 1, b: 2 });
+    });
+
+    it('should throw an error for an unnamed property', () => {
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      expect(() => { snapshotProperties(m, [p]); }).to.throwError();
+    });
+
+    it('should throw an error for a duplicate property name', () => {
+      var p1 = new Property<Model, number>({ name: 'a', value: 0 });
+      var p2 = new Property<Model, number>({ name: 'a', value: 0 });
+      var m = new Model();
+      expect(() => { snapshotProperties(m, [p1, p2]); }).to.throwError();
+    });
+
+  });
+
+  describe('restoreProperties()', () => {
+
+    it('should restore the values from a snapshot', () => {
+      var p1 = new Property<Model, number>({ name: 'a', value: 0 });
+      var p2 = new Property<Model, string>({ name: 'b', value: '' });
+      var m1 = new Model();
+      var m2 = new Model();
+      p1.set(m1, 1);
+      p2.set(m1, 'x');
+      var snapshot = snapshotProperties(m1, [p1, p2]);
+      restoreProperties(m2, JSON.parse(JSON.stringify(snapshot)), [p1, p2]);
+      expect(p1.get(m2)).to.be(1);
+      expect(p2.get(m2)).to.be('x');
+    });
+
+    it('should coerce the values and emit notifications', () => {
+      var args: IPropertyChangedArgs[] = [];
+      var coerce = (m: Model, v: number) => Math.max(0, v);
+      var p = new Property<Model, number>({ name: 'a', value: 5, coerce: coerce });
+      var m = new Model();
+      m.propertyChanged.connect(a => { args.push(a); });
+      restoreProperties(m, { a: -1 }, [p]);
+      expect(p.get(m)).to.be(0);
+      expect(args.length).to.be(1);
+      expect(args[0].oldValue).to.be(5);
+    });
+
+    it('should skip computed and read-only properties', () => {
+      var key = {};
+      var p1 = new Property<Model, number>({ name: 'a', value: 0 });
+      var p2 = new ReadOnlyProperty<Model, number>({ name: 'b', value: 0, key: key });
+      var p3 = new ComputedProperty<Model, number>({
+        name: 'c',
+        compute: owner => p1.get(owner) * 2,
+      });
+      var m1 = new Model();
+      var m2 = new Model();
+      p1.set(m1, 1);
+      p2.set(m1, 2, key);
+      var snapshot = snapshotProperties(m1, [p1, p2, p3]);
+      expect(snapshot).to.eql({ a: 1 });
+      restoreProperties(m2, { a: 1, b: 2, c: 3 }, [p1, p2, p3]);
+      expect(p1.get(m2)).to.be(1);
+      expect(p2.get(m2)).to.be(0);
+      expect(p3.get(m2)).to.be(2);
+    });
+
+    it('should use the deserialize function', () => {
+      var p = new Property<Model, Date>({
+        name: 'date',
+        deserialize: v => new Date(v),
+      });
+      var m = new Model();
+      restoreProperties(m, { date: 42 }, [p]);
+      expect(p.get(m).getTime()).to.be(42);
+    });
+
+    it('should ignore properties which opt out of persistence', () => {
+      var p = new Property<Model, number>({ name: 'a', value: 0, persist: false });
+      var m = new Model();
+      restoreProperties(m, { a: 1 }, [p]);
+      expect(p.get(m)).to.be(0);
+    });
+
+    it('should ignore unknown snapshot entries', () => {
+      var p = new Property<Model, number>({ name: 'a', value: 0 });
+      var m = new Model();
+      restoreProperties(m, { a: 1, b: 2 }, [p]);
+      expect(p.get(m)).to.be(1);
+    });
+
+    it('should default to the registered properties of the owner type', () => {
+      class Owner extends Model { }
+      var p = new Property<Owner, number>({ name: 'a', ownerType: Owner });
+      var m = new Owner();
+      restoreProperties(m, { a: 1 });
+      expect(p.get(m)).to.be(1);
+    });
+
+  });
+
+  describe('findProperty()', () => {
+
+    it('should find a registered property by owner type and name', () => {
+      class Owner extends Model { }
+      var p1 = new Property<Owner, number>({ name: 'a', ownerType: Owner });
+      var p2 = new Property<Owner, number>({ name: 'b', ownerType: Owner });
+      expect(findProperty(Owner, 'a')).to.be(p1);
+      expect(findProperty(Owner, 'b')).to.be(p2);
+    });
+
+    it('should return `null` if the property is not registered', () => {
+      class Owner extends Model { }
+      var p1 = new Property<Owner, number>({ name: 'a' });
+      var p2 = new Property<Owner, number>({ ownerType: Owner });
+      expect(findProperty(Owner, 'a')).to.be(null);
+      expect(findProperty(Owner, '')).to.be(null);
+    });
+
+    it('should search the base classes of the owner type', () => {
+      class Base extends Model { }
+      class Derived extends Base { }
+      var p1 = new Property<Base, number>({ name: 'a', ownerType: Base });
+      var p2 = new Property<Base, number>({ name: 'b', ownerType: Base });
+      var p3 = new Property<Derived, number>({ name: 'b', ownerType: Derived });
+      expect(findProperty(Derived, 'a')).to.be(p1);
+      expect(findProperty(Derived, 'b')).to.be(p3);
+      expect(findProperty(Base, 'b')).to.be(p2);
+    });
+
+    it('should throw an error for a duplicate property name', () => {
+      class Owner extends Model { }
+      var p = new Property<Owner, number>({ name: 'a', ownerType: Owner });
+      expect(() => {
+        new Property<Owner, number>({ name: 'a', ownerType: Owner });
+      }).to.throwError();
+    });
+
+  });
+
+  describe('getRegisteredProperties()', () => {
+
+    it('should return the registered properties for an owner type', () => {
+      class Owner extends Model { }
+      var p1 = new Property<Owner, number>({ name: 'a', ownerType: Owner });
+      var p2 = new Property<Owner, number>({ name: 'b', ownerType: Owner });
+      expect(getRegisteredProperties(Owner)).to.eql([p1, p2]);
+    });
+
+    it('should return an empty array if no properties are registered', () => {
+      class Owner extends Model { }
+      expect(getRegisteredProperties(Owner)).to.eql([]);
+    });
+
+    it('should include the properties of the base classes', () => {
+      class Base extends Model { }
+      class Derived extends Base { }
+      var p1 = new Property<Base, number>({ name: 'a', ownerType: Base });
+      var p2 = new Property<Base, number>({ name: 'b', ownerType: Base });
+      var p3 = new Property<Derived, number>({ name: 'b', ownerType: Derived });
+      var p4 = new Property<Derived, number>({ name: 'c', ownerType: Derived });
+      expect(getRegisteredProperties(Base)).to.eql([p1, p2]);
+      expect(getRegisteredProperties(Derived)).to.eql([p1, p3, p4]);
+    });
+
+  });
+
+  describe('addPropertyInterceptor()', () => {
+
+    it('should observe property writes', () => {
+      var writes: IPropertyWrite[] = [];
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      var handle = addPropertyInterceptor({
+        intercept: (write, next) => { writes.push(write); next(); }
+      });
+      p.set(m, 1);
+      p.setLayerValue(m, PropertyLayer.Style, 2);
+      handle.dispose();
+      expect(p.get(m)).to.be(1);
+      expect(writes.length).to.be(2);
+      expect(writes[0].property).to.be(p);
+      expect(writes[0].owner).to.be(m);
+      expect(writes[0].kind).to.be('set');
+      expect(writes[0].layer).to.be(PropertyLayer.Local);
+      expect(writes[0].value).to.be(1);
+      expect(writes[1].layer).to.be(PropertyLayer.Style);
+      expect(writes[1].value).to.be(2);
+    });
+
+    it('should allow an interceptor to modify the value', () => {
+      var p = new Property<Model, number>({
+        value: 0,
+        coerce: (owner, value) => Math.min(value, 10),
+      });
+      var m = new Model();
+      var handle = addPropertyInterceptor({
+        intercept: (write, next) => { write.value *= 2; next(); }
+      });
+      p.set(m, 3);
+      expect(p.get(m)).to.be(6);
+      p.set(m, 7);
+      expect(p.get(m)).to.be(10);
+      handle.dispose();
+    });
+
+    it('should validate the modified value', () => {
+      var p = new Property<Model, number>({
+        value: 0,
+        validate: (owner, value) => value < 0 ? 'negative' : '',
+      });
+      var m = new Model();
+      var handle = addPropertyInterceptor({
+        intercept: (write, next) => { write.value = -write.value; next(); }
+      });
+      expect(() => { p.set(m, 1); }).to.throwError();
+      p.set(m, -1);
+      handle.dispose();
+      expect(p.get(m)).to.be(1);
+    });
+
+    it('should allow an interceptor to cancel the write', () => {
+      var called = false;
+      var p = new Property<Model, number>({
+        value: 0,
+        changed: () => { called = true; },
+      });
+      var m = new Model();
+      var handle = addPropertyInterceptor({
+        intercept: (write, next) => { }
+      });
+      p.set(m, 1);
+      var result = p.trySet(m, 2);
+      handle.dispose();
+      expect(p.getLayerValue(m, PropertyLayer.Local)).to.be(void 0);
+      expect(p.get(m)).to.be(0);
+      expect(called).to.be(false);
+      expect(result.success).to.be(false);
+      expect(result.error).to.be(null);
+    });
+
+    it('should intercept coerce writes', () => {
+      var writes: IPropertyWrite[] = [];
+      var max = 10;
+      var p = new Property<Model, number>({
+        value: 0,
+        coerce: (owner, value) => Math.min(value, max),
+      });
+      var m = new Model();
+      p.set(m, 8);
+      var handle = addPropertyInterceptor({
+        intercept: (write, next) => { writes.push(write); next(); }
+      });
+      max = 5;
+      p.coerce(m);
+      handle.dispose();
+      expect(p.get(m)).to.be(5);
+      expect(writes.length).to.be(1);
+      expect(writes[0].kind).to.be('coerce');
+      expect(writes[0].layer).to.be(null);
+      expect(writes[0].value).to.be(8);
+    });
+
+    it('should invoke the interceptors in the order they were added', () => {
+      var log: string[] = [];
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      var h1 = addPropertyInterceptor({
+        intercept: (write, next) => { log.push('a1'); next(); log.push('a2'); }
+      });
+      var h2 = addPropertyInterceptor({
+        intercept: (write, next) => { log.push('b1'); next(); log.push('b2'); }
+      });
+      p.set(m, 1);
+      h1.dispose();
+      h2.dispose();
+      expect(log).to.eql(['a1', 'b1', 'b2', 'a2']);
+    });
+
+    it('should observe change notifications', () => {
+      var log: string[] = [];
+      var p = new Property<Model, number>({
+        value: 0,
+        changed: () => { log.push('changed'); },
+      });
+      var m = new Model();
+      m.propertyChanged.connect(() => { log.push('signal'); });
+      var handle = addPropertyInterceptor({
+        notify: (owner, args) => {
+          expect(owner).to.be(m);
+          expect(args.property).to.be(p);
+          expect(args.oldValue).to.be(0);
+          expect(args.newValue).to.be(1);
+          log.push('notify');
+        }
+      });
+      p.set(m, 1);
+      p.set(m, 1);
+      handle.dispose();
+      expect(log).to.eql(['changed', 'notify', 'signal']);
+    });
+
+    it('should not mutate the notified args when a batch coalesces', () => {
+      var seen: IPropertyChangedArgs[] = [];
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      var handle = addPropertyInterceptor({
+        notify: (owner, args) => { seen.push(args); }
+      });
+      batchPropertyChanges(m, () => {
+        p.set(m, 1);
+        p.set(m, 2);
+      });
+      handle.dispose();
+      expect(seen.length).to.be(2);
+      expect(seen[0].oldValue).to.be(0);
+      expect(seen[0].newValue).to.be(1);
+      expect(seen[1].oldValue).to.be(1);
+      expect(seen[1].newValue).to.be(2);
+    });
+
+    it('should remove the interceptor when the handle is disposed', () => {
+      var count = 0;
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      var handle = addPropertyInterceptor({
+        intercept: (write, next) => { count++; next(); }
+      });
+      p.set(m, 1);
+      expect(handle.isDisposed).to.be(false);
+      handle.dispose();
+      expect(handle.isDisposed).to.be(true);
+      handle.dispose();
+      p.set(m, 2);
+      expect(count).to.be(1);
+      expect(p.get(m)).to.be(2);
+    });
+
+  });
+
+  describe('startPropertyTrace()', () => {
+
+    afterEach(() => {
+      stopPropertyTrace();
+      clearPropertyTrace();
+    });
+
+    it('should record property changes', () => {
+      var p = new Property<Model, number>({ name: 'p', value: 0 });
+      var m = new Model();
+      startPropertyTrace();
+      p.set(m, 1);
+      p.set(m, 1);
+      var trace = getPropertyTrace();
+      expect(trace.length).to.be(1);
+      expect(trace[0].property).to.be(p);
+      expect(trace[0].name).to.be('p');
+      expect(trace[0].owner).to.be(m);
+      expect(trace[0].oldValue).to.be(0);
+      expect(trace[0].newValue).to.be(1);
+      expect(trace[0].timestamp).to.be.a('number');
+      expect(trace[0].stack).to.be('');
+      expect(trace[0].depth).to.be(0);
+    });
+
+    it('should record the nesting depth of changes', () => {
+      var p2 = new Property<Model, number>({ name: 'p2', value: 0 });
+      var p3 = new Property<Model, number>({ name: 'p3', value: 0 });
+      var p1 = new Property<Model, number>({
+        name: 'p1',
+        value: 0,
+        changed: (owner, old, value) => { p2.set(owner, value); },
+      });
+      var m = new Model();
+      m.propertyChanged.connect((args: IPropertyChangedArgs) => {
+        if (args.property === p2) p3.set(m, args.newValue);
+      });
+      startPropertyTrace();
+      p1.set(m, 1);
+      var trace = getPropertyTrace();
+      expect(trace.map(e => e.name)).to.eql(['p1', 'p2', 'p3']);
+      expect(trace.map(e => e.depth)).to.eql([0, 1, 2]);
+    });
+
+    it('should capture stack traces if requested', () => {
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      startPropertyTrace({ captureStack: true });
+      p.set(m, 1);
+      expect(getPropertyTrace()[0].stack).to.be.a('string');
+      expect(getPropertyTrace()[0].stack.length > 0).to.be(true);
+    });
+
+    it('should discard the oldest entries when the buffer is full', () => {
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      startPropertyTrace({ capacity: 3 });
+      for (var i = 1; i <= 5; ++i) p.set(m, i);
+      expect(getPropertyTrace().map(e => e.newValue)).to.eql([3, 4, 5]);
+    });
+
+    it('should throw an error for an invalid capacity', () => {
+      expect(() => { startPropertyTrace({ capacity: 0 }); }).to.throwError();
+      expect(() => { startPropertyTrace({ capacity: NaN }); }).to.throwError();
+    });
+
+    it('should clear previously recorded entries', () => {
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      startPropertyTrace();
+      p.set(m, 1);
+      startPropertyTrace();
+      p.set(m, 2);
+      expect(getPropertyTrace().map(e => e.newValue)).to.eql([2]);
+    });
+
+  });
+
+  describe('stopPropertyTrace()', () => {
+
+    it('should stop recording and retain the entries', () => {
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      startPropertyTrace();
+      p.set(m, 1);
+      stopPropertyTrace();
+      p.set(m, 2);
+      expect(getPropertyTrace().map(e => e.newValue)).to.eql([1]);
+      clearPropertyTrace();
+    });
+
+  });
+
+  describe('clearPropertyTrace()', () => {
+
+    it('should clear the recorded entries', () => {
+      var p = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      startPropertyTrace({ capacity: 2 });
+      p.set(m, 1);
+      p.set(m, 2);
+      p.set(m, 3);
+      clearPropertyTrace();
+      expect(getPropertyTrace()).to.eql([]);
+      p.set(m, 4);
+      p.set(m, 5);
+      p.set(m, 6);
+      stopPropertyTrace();
+      expect(getPropertyTrace().map(e => e.newValue)).to.eql([5, 6]);
+      clearPropertyTrace();
+    });
+
+  });
+
+  describe('getPropertyTrace()', () => {
+
+    it('should filter the entries with a predicate', () => {
+      var p1 = new Property<Model, number>({ value: 0 });
+      var p2 = new Property<Model, number>({ value: 0 });
+      var m = new Model();
+      startPropertyTrace();
+      p1.set(m, 1);
+      p2.set(m, 2);
+      p1.set(m, 3);
+      stopPropertyTrace();
+      var trace = getPropertyTrace(e => e.property === p1);
+      expect(trace.map(e => e.newValue)).to.eql([1, 3]);
+      clearPropertyTrace();
+    });
+
+  });
+
+  describe('dumpPropertyTrace()', () => {
+
+    it('should format the entries with nested indentation', () => {
+      var p2 = new Property<Model, number>({ name: 'p2', value: 0 });
+      var p1 = new Property<Model, number>({
+        name: 'p1',
+        value: 0,
+        changed: (owner, old, value) => { p2.set(owner, value * 2); },
+      });
+      var m = new Model();
+      startPropertyTrace();
+      p1.set(m, 1);
+      stopPropertyTrace();
+      var lines = dumpPropertyTrace().split('\n');
+      clearPropertyTrace();
+      expect(lines.length).to.be(2);
+      expect(/ p1: 0 -> 1$/.test(lines[0])).to.be(true);
+      expect(/ {3}p2: 0 -> 2$/.test(lines[1])).to.be(true);
     });
 
   });